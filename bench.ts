@@ -0,0 +1,89 @@
+import process from "process";
+import { BlockCache, CountingEngine, defaultPreset } from "./engine";
+import type { Preset } from "./engine";
+
+// ── Counting benchmark ────────────────────────────────────────────────────────
+//
+// Times counting generated notes from scratch and after single keystrokes, the
+// way the status bar recounts a note while typing. Exits with code 1 when the
+// median keystroke takes longer than the budget:
+//
+//   npm run bench
+
+// Sizes of the generated notes (words) and the number of edits made in each
+const SIZES = [10000, 50000, 100000];
+const EDITS = 50;
+// Recounting after a keystroke should fit in a frame (ms)
+const KEYSTROKE_BUDGET = 16;
+
+interface Result {
+  words: number;
+  full: number;      // ms, median
+  keystroke: number; // ms, median
+  slowest: number;   // ms
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+function time(count: () => void): number {
+  const start = performance.now();
+  count();
+  return performance.now() - start;
+}
+
+/** A note of about `words` words with the usual Markdown: headings, lists, links, citations, tables, code. */
+function note(words: number): string {
+  const sentence = "The quick brown fox jumps over the lazy dog near the [[river bank|bank]] at dawn.";
+  const blocks = ["---\ntitle: Benchmark\n---"];
+  let count = 0;
+  for (let i = 0; count < words; i++) {
+    if (i % 20 === 0) blocks.push(`## Section ${i / 20 + 1}`);
+    blocks.push(`${sentence} As [@doe2020, p. ${i}] argues, see [the notes](https://example.com/${i}) %% todo %% too.`);
+    count += 27; // words in the paragraph
+    if (i % 10 === 3) blocks.push("- first item\n- second item with `code`\n- [ ] a task");
+    if (i % 25 === 7) blocks.push("| Term | Definition |\n| --- | --- |\n| fox | an animal |");
+    if (i % 30 === 11) blocks.push("```js\nconst fox = jump(dog);\n```");
+  }
+  return blocks.join("\n\n");
+}
+
+/** Times counting a generated note from scratch, then after each of a series of edits. */
+function benchmark(engine: CountingEngine, preset: Preset, words: number): Result {
+  let text = note(words);
+  const full = [0, 1, 2].map(() => time(() => engine.computeMetrics(text, preset)));
+  const cache = new BlockCache();
+  const recount = () => cache.use(preset, () => engine.computeMetrics(text, preset, undefined, cache));
+  recount();
+
+  // Typing a letter at the start of a word and deleting it again, at places spread over the note
+  const keystrokes: number[] = [];
+  let at = 0;
+  for (let i = 0; i < EDITS; i++) {
+    if (i % 2 === 0) {
+      at = text.indexOf(" ", Math.floor((text.length * ((i * 7) % EDITS)) / EDITS)) + 1;
+      text = text.slice(0, at) + "a" + text.slice(at);
+    } else {
+      text = text.slice(0, at) + text.slice(at + 1);
+    }
+    keystrokes.push(time(recount));
+  }
+  return { words, full: median(full), keystroke: median(keystrokes), slowest: Math.max(...keystrokes) };
+}
+
+const engine = new CountingEngine();
+const preset = defaultPreset({ name: "Benchmark" });
+const ms = (value: number) => `${value.toFixed(1)} ms`.padStart(10);
+
+console.log(`${"Words".padStart(8)}${"Full".padStart(10)}${"Keystroke".padStart(10)}${"Slowest".padStart(10)}`);
+let over = false;
+for (const words of SIZES) {
+  const result = benchmark(engine, preset, words);
+  const within = result.keystroke <= KEYSTROKE_BUDGET;
+  if (!within) over = true;
+  console.log(`${words.toLocaleString().padStart(8)}${ms(result.full)}${ms(result.keystroke)}${ms(result.slowest)}${within ? "" : "  over budget"}`);
+}
+if (over) console.error(`The median keystroke took longer than ${KEYSTROKE_BUDGET} ms`);
+process.exitCode = over ? 1 : 0;
@@ -0,0 +1,273 @@
+import * as fs from "fs";
+import * as path from "path";
+import process from "process";
+import t from "./locales/en";
+import { CountingEngine, METRIC_KEYS, csvField, defaultPreset, parsePresets } from "./engine";
+import type { EmbedContext, EmbedSource, MetricKey, Metrics, Preset } from "./engine";
+import { tokenize } from "./tokenizer";
+import type { WikiLinkParts } from "./tokenizer";
+
+// ── Command-line tool ─────────────────────────────────────────────────────────
+//
+// Counts Markdown files with the presets of a vault, the same way the plugin
+// does, e.g. to check in CI that a manuscript stays under its word limit:
+//
+//   node cli.js --settings vault/.obsidian/plugins/advanced-word-count/data.json --max-words 8000 paper.md
+
+type Format = "text" | "json" | "csv";
+
+interface Options {
+  settings?: string;
+  presets?: string;
+  preset?: string;
+  vault?: string;
+  format: Format;
+  limits: Partial<Record<MetricKey, number>>;
+  files: string[];
+}
+
+interface Row {
+  file: string;
+  metrics: Metrics;
+}
+
+/** Thrown for wrong arguments and unreadable files; exits with code 2. */
+class UsageError extends Error {}
+
+const LIMIT_OPTIONS: Record<string, MetricKey> = {
+  "--max-words": "wordsWithSpaces",
+  "--max-chars": "charsWithSpaces",
+  "--max-pages": "pages",
+  "--max-citekeys": "citekeys",
+};
+
+const SETTINGS_PATH = path.join(".obsidian", "plugins", "advanced-word-count", "data.json");
+
+// ── Arguments ─────────────────────────────────────────────────────────────────
+
+function parseArgs(args: string[]): Options | undefined {
+  const options: Options = { format: "text", limits: {}, files: [] };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--help" || arg === "-h") return undefined;
+    if (arg === "-" || !arg.startsWith("--")) { options.files.push(arg); continue; }
+
+    const value = args[++i];
+    if (value === undefined) throw new UsageError(t.cliMissingValue(arg));
+    if (arg in LIMIT_OPTIONS) {
+      const max = parseFloat(value);
+      if (!(isFinite(max) && max > 0)) throw new UsageError(t.cliInvalidNumber(arg, value));
+      options.limits[LIMIT_OPTIONS[arg]] = max;
+    } else if (arg === "--format") {
+      if (value !== "text" && value !== "json" && value !== "csv") throw new UsageError(t.cliInvalidFormat(value));
+      options.format = value;
+    } else if (arg === "--settings") options.settings = value;
+    else if (arg === "--presets") options.presets = value;
+    else if (arg === "--preset") options.preset = value;
+    else if (arg === "--vault") options.vault = value;
+    else throw new UsageError(t.cliUnknownOption(arg));
+  }
+  if (options.files.length === 0) options.files.push("-");
+  return options;
+}
+
+function readText(file: string): string {
+  try {
+    return fs.readFileSync(file === "-" ? 0 : file, "utf8");
+  } catch (e) {
+    throw new UsageError(t.cliUnreadable(file === "-" ? t.cliStdin : file, (e as Error).message));
+  }
+}
+
+// ── Presets ───────────────────────────────────────────────────────────────────
+
+/** The preset to count with: named by --preset, else the active one of the vault, else the first. */
+function loadPreset(options: Options): Preset {
+  let presets: Preset[] = [defaultPreset({ name: t.defaultPresetName })];
+  let activeId = "";
+  try {
+    if (options.settings) {
+      const data = JSON.parse(readText(options.settings));
+      // Same as the plugin's loadSettings: fill in options added after a preset was saved
+      presets = (Array.isArray(data?.presets) ? data.presets : []).map((p: Partial<Preset>) => defaultPreset(p));
+      activeId = typeof data?.activePresetId === "string" ? data.activePresetId : "";
+    } else if (options.presets) {
+      presets = parsePresets(readText(options.presets), t).map((p) => defaultPreset(p));
+    }
+  } catch (e) {
+    if (e instanceof UsageError) throw e;
+    throw new UsageError(t.cliUnreadable((options.settings ?? options.presets)!, (e as Error).message));
+  }
+
+  if (options.preset) {
+    const wanted = options.preset.trim().toLowerCase();
+    const found = presets.find((p) => p.id === options.preset || p.name.trim().toLowerCase() === wanted);
+    if (!found) throw new UsageError(t.cliNoPreset(options.preset));
+    return found;
+  }
+  const preset = presets.find((p) => p.id === activeId) ?? presets[0];
+  if (!preset) throw new UsageError(t.importEmpty);
+  return preset;
+}
+
+// ── Embedded notes ────────────────────────────────────────────────────────────
+
+/** Finds embedded notes in a folder the way Obsidian resolves links: by path, then by name. */
+class FolderEmbedSource implements EmbedSource {
+  private root: string;
+  private byName: Map<string, string> | null = null;
+
+  constructor(root: string) {
+    this.root = root;
+  }
+
+  locate(link: WikiLinkParts, from: string): string | undefined {
+    const target = /\.md$/i.test(link.target) ? link.target : `${link.target}.md`;
+    const candidates = [path.join(path.dirname(from), target), target];
+    for (const candidate of candidates) {
+      if (this.isFile(candidate)) return path.normalize(candidate);
+    }
+    return this.names().get(path.basename(target).toLowerCase());
+  }
+
+  read(file: string, subpath: string): string | undefined {
+    let raw: string;
+    try {
+      raw = fs.readFileSync(path.join(this.root, file), "utf8");
+    } catch {
+      return undefined;
+    }
+    return subpath ? sliceSubpath(raw, subpath) : raw;
+  }
+
+  private isFile(file: string): boolean {
+    try {
+      return fs.statSync(path.join(this.root, file)).isFile();
+    } catch {
+      return false;
+    }
+  }
+
+  /** Markdown files of the folder by lowercase file name; the shortest path wins, as in Obsidian. */
+  private names(): Map<string, string> {
+    if (this.byName) return this.byName;
+    const names = new Map<string, string>();
+    const walk = (dir: string) => {
+      let entries: fs.Dirent[];
+      try {
+        entries = fs.readdirSync(path.join(this.root, dir), { withFileTypes: true });
+      } catch {
+        return;
+      }
+      for (const entry of entries) {
+        if (entry.name.startsWith(".") || entry.name === "node_modules") continue;
+        const file = path.join(dir, entry.name);
+        if (entry.isDirectory()) walk(file);
+        else if (/\.md$/i.test(entry.name)) {
+          const key = entry.name.toLowerCase();
+          const known = names.get(key);
+          if (!known || file.length < known.length) names.set(key, file);
+        }
+      }
+    };
+    walk("");
+    return (this.byName = names);
+  }
+}
+
+/** The heading section (with its subsections) or the ^block a subpath points to; empty if there is none. */
+function sliceSubpath(raw: string, subpath: string): string {
+  const { blocks } = tokenize(raw);
+  if (subpath.startsWith("^")) {
+    const id = new RegExp(`(?:^|\\s)\\^${subpath.slice(1).replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\s*$`);
+    const block = blocks.find((b) => id.test(raw.slice(b.from, b.to)));
+    return block ? raw.slice(block.from, block.to) : "";
+  }
+  // "A#B" is the heading B under A; the last heading is enough to find it
+  const name = subpath.split("#").pop()!.trim().toLowerCase();
+  const start = blocks.findIndex((b) => b.kind === "heading" && (b.heading ?? "").trim().toLowerCase() === name);
+  if (start < 0) return "";
+  const level = blocks[start].level ?? 1;
+  const end = blocks.findIndex((b, i) => i > start && b.kind === "heading" && (b.level ?? 1) <= level);
+  return raw.slice(blocks[start].from, end < 0 ? raw.length : blocks[end].from);
+}
+
+// ── Output ────────────────────────────────────────────────────────────────────
+
+function columns(preset: Preset): { label: string; value: (m: Metrics) => string | number }[] {
+  return [
+    ...METRIC_KEYS.map((key) => ({ label: t.metricLabels[key], value: (m: Metrics) => m[key] })),
+    ...preset.customCounters.map((c) => ({ label: c.label, value: (m: Metrics) => m.custom[c.id] ?? 0 })),
+  ];
+}
+
+function format(rows: Row[], preset: Preset, kind: Format): string {
+  const cols = columns(preset);
+  if (kind === "json") {
+    return JSON.stringify({
+      preset: preset.name,
+      files: rows.map(({ file, metrics }) => {
+        const { typesetLines, citedKeys, ...shown } = metrics;
+        return { file, metrics: shown };
+      }),
+    }, null, 2);
+  }
+  if (kind === "csv") {
+    const lines = [[t.reportFile, ...cols.map((c) => c.label)], ...rows.map((r) => [r.file, ...cols.map((c) => c.value(r.metrics))])];
+    return lines.map((line) => line.map(csvField).join(",")).join("\n");
+  }
+  const width = Math.max(...cols.map((c) => c.label.length));
+  const blocks = rows.map(({ file, metrics }) =>
+    [file, ...cols.map((c) => `  ${c.label.padEnd(width)}  ${c.value(metrics)}`)].join("\n"));
+  return [t.cliPreset(preset.name), ...blocks].join("\n\n");
+}
+
+// ── Main ──────────────────────────────────────────────────────────────────────
+
+function run(args: string[]): number {
+  const options = parseArgs(args);
+  if (!options) {
+    console.log(t.cliUsage);
+    return 0;
+  }
+
+  const preset = loadPreset(options);
+  const vault = options.vault ?? (options.settings ? vaultOf(options.settings) : process.cwd());
+  const source = new FolderEmbedSource(vault);
+  const engine = new CountingEngine();
+
+  const rows: Row[] = options.files.map((file) => {
+    const raw = readText(file);
+    const name = file === "-" ? t.cliStdin : file;
+    const context: EmbedContext = { source, chain: [file === "-" ? "" : path.relative(vault, path.resolve(file))], words: new Map() };
+    return { file: name, metrics: engine.computeMetrics(raw, preset, context) };
+  });
+  if (rows.length > 1) rows.push({ file: t.reportTotal, metrics: engine.sumMetrics(rows.map((r) => r.metrics), preset) });
+
+  console.log(format(rows, preset, options.format));
+
+  let over = false;
+  for (const [key, max] of Object.entries(options.limits) as [MetricKey, number][]) {
+    for (const { file, metrics } of rows) {
+      const value = parseFloat(String(metrics[key]));
+      if (value <= max) continue;
+      console.error(t.cliOverLimit(file, t.metricLabels[key], value, max));
+      over = true;
+    }
+  }
+  return over ? 1 : 0;
+}
+
+/** The vault folder of a data.json in .obsidian/plugins/advanced-word-count, or the folder of any other file. */
+function vaultOf(settings: string): string {
+  const full = path.resolve(settings);
+  return full.endsWith(path.sep + SETTINGS_PATH) ? full.slice(0, -SETTINGS_PATH.length - 1) : path.dirname(full);
+}
+
+try {
+  process.exitCode = run(process.argv.slice(2));
+} catch (e) {
+  if (!(e instanceof UsageError)) throw e;
+  console.error(e.message);
+  process.exitCode = 2;
+}
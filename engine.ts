@@ -0,0 +1,1303 @@
+// ── Counting engine ───────────────────────────────────────────────────────────
+//
+// Presets and the metrics they count in a note. Nothing here depends on Obsidian,
+// so the plugin and the command-line tool (cli.ts) count notes the same way.
+
+import { retokenize, tokenize, tokenizeInline } from "./tokenizer";
+import type { Block, BlockKind, MarkdownDocument, Span, SpanKind, WikiLinkParts } from "./tokenizer";
+import type { Locale } from "./locales/en";
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface Preset {
+  id: string;
+  name: string;
+
+  // Page
+  pageModel: PageModel;
+  wordsPerPage: number;
+  charsPerPage: number;  // for the "chars" and "charsNoSpaces" models
+  linesPerPage: number;  // for the "layout" model
+  charsPerLine: number;
+
+  // Reading and speaking time
+  readingWpm: number;
+  speakingWpm: number;
+
+  // How text is split into words
+  wordSegmentation: WordSegmentation;
+
+  // How characters are measured
+  charCounting: CharCounting;
+  charProfile: CharProfile;
+
+  // Status bar template, e.g. "{words:n} w · {pages:1} pp"; empty for the metrics below
+  statusTemplate: string;
+
+  // Metric visibility
+  showWordsWithSpaces: boolean;    // space-separated word count
+  showCharsWithSpaces: boolean;    // total characters including spaces and linebreaks
+  showCharsWithoutSpaces: boolean; // total characters excluding all whitespace
+  showPages: boolean;
+  showAuthorSheets: boolean;
+  showLines: boolean;
+  showParagraphs: boolean;
+  showMarkdownLinks: boolean;
+  showWikiLinks: boolean;
+  showCitekeys: boolean;
+  showUniqueCitekeys: boolean;
+  showCjkChars: boolean;
+  showSentences: boolean;
+  showAvgSentenceLength: boolean;
+  showReadingTime: boolean;
+  showSpeakingTime: boolean;
+  showReadability: boolean;
+
+  // Optional min/max targets, overridable per note from frontmatter
+  targets: Targets;
+
+  // Word count inclusions / exclusions (shared by both word and char metrics)
+  countMdLinksAsWords: boolean;
+  countWikiLinkDisplayText: boolean;
+  ignoreWikiLinks: boolean;
+  countCitekeysAsWords: boolean;
+  ignoreComments: boolean;
+  countEmbeds: boolean;          // ![[Note]] counts the embedded note instead of its name
+  countCanvasFiles: boolean;     // canvases count the notes on their cards, not only text cards
+
+  // Scope: parts of the note left out of every metric
+  excludeMarkedRegions: boolean; // %% wc:off %% … %% wc:on %%
+  excludeSections: boolean;
+  excludedHeadings: string[];    // sections with these headings, including subsections
+  ignoreCallouts: boolean;
+  ignoreTables: boolean;
+  ignoreFootnotes: boolean;
+  ignoreBlockQuotes: boolean;
+
+  // User-defined metrics, shown in the status bar after the built-in ones
+  customCounters: CustomCounter[];
+
+  // Metrics written to the note's frontmatter
+  writeFrontmatter: boolean;
+  frontmatterProperties: FrontmatterProperties;
+  frontmatterInclude: string;    // comma-separated globs of notes that may be modified
+  frontmatterExclude: string;
+}
+
+/** Frontmatter property every written metric goes to, e.g. { wordsWithSpaces: "words" }. */
+export type FrontmatterProperties = Partial<Record<MetricKey, string>>;
+
+/** A preset's own metric: matches of a regular expression or of a built-in matcher. */
+export interface CustomCounter {
+  id: string;
+  label: string;
+  matcher: CustomMatcher;
+  pattern: string;       // for the "regex" matcher, e.g. \bTODO\b or /todo/i
+  source: CounterSource; // for the "regex" matcher, built-in matchers have their own
+  unique: boolean;       // distinct matches (of the first group, if there is one)
+  show: boolean;         // in the status bar
+}
+
+export type CustomMatcher = "regex" | "footnotes" | "tasks" | "tags" | "todos" | "dialogue";
+
+/**
+ * raw:  the Markdown of the note as is
+ * text: the text words are counted in, with links, citekeys etc. handled by the preset
+ */
+export type CounterSource = "raw" | "text";
+
+/**
+ * words:         words per page
+ * chars:         characters with spaces per page, e.g. the 1,800-character standard page
+ * charsNoSpaces: characters without spaces per page
+ * layout:        lines per page, with paragraphs and headings starting new lines
+ */
+export type PageModel = "words" | "chars" | "charsNoSpaces" | "layout";
+
+/**
+ * whitespace: space-separated tokens
+ * unicode:    word boundaries of Intl.Segmenter (Chinese, Japanese, Thai…)
+ * cjk:        every CJK character is a word, other text is split on spaces (like MS Word)
+ */
+export type WordSegmentation = "whitespace" | "unicode" | "cjk";
+
+/**
+ * utf16:      JavaScript string length (emoji count as 2)
+ * codepoints: Unicode code points
+ * graphemes:  user-perceived characters, as most editors and social networks count
+ */
+export type CharCounting = "utf16" | "codepoints" | "graphemes";
+
+/** Platform whose character limit the character counts should mimic. */
+export type CharProfile = "none" | "telegram" | "x" | "mastodon" | "bluesky";
+
+export interface CharProfileRules {
+  unit?: CharCounting;       // overrides the preset's unit
+  urlLength?: number;        // every URL counts as this many characters
+  linkLabelsOnly?: boolean;  // links render as their label
+}
+
+export type TargetMetric = "wordsWithSpaces" | "charsWithSpaces" | "charsWithoutSpaces" | "pages" | "citekeys";
+
+export interface MetricTarget {
+  min?: number;
+  max?: number;
+}
+
+export type Targets = Partial<Record<TargetMetric, MetricTarget>>;
+
+export interface Metrics {
+  wordsWithSpaces: number;
+  charsWithSpaces: number;
+  charsWithoutSpaces: number;
+  pages: string;
+  authorSheets: number;     // 40,000 characters with spaces each
+  typesetLines: number;     // lines of the "layout" page model, so that pages of several notes can be added up
+  lines: number;
+  paragraphs: number;
+  markdownLinks: number;
+  wikiLinks: number;
+  citekeys: number;         // citations, a key cited twice counts twice
+  uniqueCitekeys: number;   // sources
+  citedKeys: string[];      // the distinct keys, so that sources of several notes can be added up
+  cjkChars: number;
+  sentences: number;
+  avgSentenceLength: number; // words per sentence
+  readingTime: number;       // minutes
+  speakingTime: number;      // minutes
+  readability: number;       // Flesch reading ease, for English or Russian
+  custom: Record<string, number>; // custom counters by ID
+}
+
+export type MetricKey = Exclude<keyof Metrics, "custom" | "citedKeys" | "typesetLines">;
+
+/** A span of the parsed note with the text it contributes under a preset. */
+export interface FilteredSpan {
+  span: Span;
+  text: string;
+  excluded?: boolean; // left out by the preset's scope rules, not counted at all
+  embed?: string;     // path of the embedded note the span comes from
+}
+
+/** Counts of one block, which are added up to the metrics of the note. */
+export interface BlockCount {
+  text: string;           // text words are counted in, for custom counters
+  words: number;
+  chars: number;
+  charsNoSpaces: number;
+  markdownLinks: number;
+  wikiLinks: number;
+  citekeys: number;
+  citedKeys: string[];
+  cjkChars: number;
+  sentences: SentenceCount;
+  reading: ReadingCounts;
+  typeset: TypesetLine[]; // for the "layout" page model only
+  scopeOff: boolean;      // inside a wc:off region at the end of the block
+}
+
+/**
+ * Sentences of a block. A block is a line, and a sentence of a hard-wrapped
+ * paragraph or quote goes on in the next line, so its ends are kept too.
+ */
+interface SentenceCount {
+  closed: number; // sentences that end in the block and have letters in it
+  leads: boolean; // the first sentence end follows no letters, so it ends a sentence of the line before
+  open: boolean;  // letters after the last sentence end, or in a block without one
+}
+
+/** What readability is computed from. */
+interface ReadingCounts {
+  words: number;     // words with letters or digits
+  syllables: number;
+  cyrillic: number;  // Cyrillic words, which make the text Russian
+}
+
+/** A source line as set on the page: its block kind and its characters. */
+type TypesetLine = [BlockKind, number];
+
+/** A card of a canvas (JSON Canvas), with the fields counting needs. */
+export interface CanvasNode {
+  id: string;
+  type: string;     // "text", "file", "link" or "group"
+  text?: string;    // of a text card
+  file?: string;    // path of the file on a file card
+  subpath?: string; // heading or block of the file, with its "#"
+}
+
+/** Where embedded notes come from: the vault in the plugin, the file system in the CLI. */
+export interface EmbedSource {
+  /** Path of the Markdown note a link points to from the note at `from`. */
+  locate(link: WikiLinkParts, from: string): string | undefined;
+  /** Text of the note, or of the heading section or block `subpath` points to; undefined until it's loaded. */
+  read(path: string, subpath: string): string | undefined;
+}
+
+/** State of counting one note, shared with the notes it embeds. */
+export interface EmbedContext {
+  source: EmbedSource;
+  chain: string[];            // the note and the embeds being expanded, to detect cycles
+  words: Map<string, number>; // words contributed by every embedded note
+}
+
+// ── Defaults ──────────────────────────────────────────────────────────────────
+
+export function defaultPreset(overrides: Partial<Preset> = {}): Preset {
+  return {
+    id: randomId(),
+    name: "",
+    pageModel: "words",
+    wordsPerPage: 250,
+    charsPerPage: 1800,
+    linesPerPage: 30,
+    charsPerLine: 60,
+    readingWpm: 238,
+    speakingWpm: 130,
+    wordSegmentation: "whitespace",
+    charCounting: "utf16",
+    charProfile: "none",
+    statusTemplate: "",
+    showWordsWithSpaces: true,
+    showCharsWithSpaces: false,
+    showCharsWithoutSpaces: false,
+    showPages: true,
+    showAuthorSheets: false,
+    showLines: false,
+    showParagraphs: false,
+    showMarkdownLinks: false,
+    showWikiLinks: false,
+    showCitekeys: false,
+    showUniqueCitekeys: false,
+    showCjkChars: false,
+    showSentences: false,
+    showAvgSentenceLength: false,
+    showReadingTime: false,
+    showSpeakingTime: false,
+    showReadability: false,
+    targets: {},
+    countMdLinksAsWords: false,
+    countWikiLinkDisplayText: false,
+    ignoreWikiLinks: false,
+    countCitekeysAsWords: false,
+    ignoreComments: true,
+    countEmbeds: false,
+    countCanvasFiles: false,
+    excludeMarkedRegions: true,
+    excludeSections: false,
+    excludedHeadings: ["References", "Bibliography", "Appendix"],
+    ignoreCallouts: false,
+    ignoreTables: false,
+    ignoreFootnotes: false,
+    ignoreBlockQuotes: false,
+    customCounters: [],
+    writeFrontmatter: false,
+    frontmatterProperties: { wordsWithSpaces: "words", pages: "pages", citekeys: "citekeys" },
+    frontmatterInclude: "**",
+    frontmatterExclude: "",
+    ...overrides,
+  };
+}
+
+export const TARGET_METRICS: TargetMetric[] = ["wordsWithSpaces", "charsWithSpaces", "charsWithoutSpaces", "pages", "citekeys"];
+
+// Bumped when notes are counted differently, so that the index is recounted
+export const COUNTING_VERSION = 6;
+
+// Embeds of embeds are expanded up to this depth
+export const EMBED_DEPTH_LIMIT = 5;
+
+// Comment that starts or ends a region left out of the count: %% wc:off %%
+const SCOPE_MARKER = /^\s*wc:\s*(off|on)\s*$/i;
+
+export const METRIC_KEYS: MetricKey[] = [
+  "wordsWithSpaces", "charsWithSpaces", "charsWithoutSpaces", "pages", "authorSheets", "lines", "paragraphs",
+  "markdownLinks", "wikiLinks", "citekeys", "uniqueCitekeys", "cjkChars",
+  "sentences", "avgSentenceLength", "readingTime", "speakingTime", "readability",
+];
+
+// End of a sentence: terminal punctuation before a space. Headings, list items and
+// table rows end their sentences without a full stop too (see countSentences).
+const SENTENCE_END = /[.!?…。！？]+["'»”’)\]]*(?=\s|$)/g;
+// A full stop after these doesn't end a sentence, nor after an initial ("J. Smith", "p. 4")
+// or a dotted abbreviation ("e.g.", "т.е.")
+const ABBREVIATIONS = new Set([
+  "al", "approx", "ca", "cf", "ch", "chap", "col", "dr", "ed", "eds", "fig", "figs", "mr", "mrs", "ms",
+  "pp", "prof", "sec", "st", "vol", "vols", "vs", "viz",
+  "гл", "гг", "др", "напр", "рис", "см", "ср", "стр", "тт",
+]);
+const ABBREVIATION = /^(?:\p{L}|(?:\p{L}+\.)+\p{L}+)$/u;
+const HAS_LETTER = /[\p{L}\p{N}]/u;
+const CYRILLIC = /\p{Script=Cyrillic}/u;
+const RUSSIAN_VOWELS = /[аеёиоуыэюя]/gi;
+
+export const COUNTER_MATCHERS: CustomMatcher[] = ["regex", "footnotes", "tasks", "tags", "todos", "dialogue"];
+
+const BUILTIN_MATCHERS: Record<Exclude<CustomMatcher, "regex">, { pattern: RegExp; source: CounterSource }> = {
+  footnotes: { pattern: /\[\^([^\]\s]+)\](?!:)/g, source: "raw" },
+  tasks:     { pattern: /^[ \t>]*(?:[-*+]|\d+[.)])[ \t]+\[ \]/gm, source: "raw" },
+  tags:      { pattern: /(?:^|\s)(#[\p{L}\p{N}_/-]*[\p{L}_/-][\p{L}\p{N}_/-]*)/gmu, source: "raw" },
+  todos:     { pattern: /\b(?:TODO|FIXME)\b/g, source: "raw" },
+  dialogue:  { pattern: /^[ \t]*(?:[—–]|["“«„])/gm, source: "text" },
+};
+
+// Flesch reading ease: base - sentence weight * words per sentence - word weight * syllables per word
+const FLESCH = {
+  en: { base: 206.835, sentence: 1.015, word: 84.6 },
+  ru: { base: 206.835, sentence: 1.3, word: 60.1 }, // Oborneva's adaptation
+};
+
+export const PAGE_MODELS: PageModel[] = ["words", "chars", "charsNoSpaces", "layout"];
+
+// Author's sheet (авторский лист), the unit Russian publishers pay and plan by
+export const AUTHOR_SHEET_CHARS = 40000;
+
+export const WORD_SEGMENTATIONS: WordSegmentation[] = ["whitespace", "unicode", "cjk"];
+
+export const CHAR_COUNTINGS: CharCounting[] = ["utf16", "codepoints", "graphemes"];
+
+export const CHAR_PROFILES: Record<CharProfile, CharProfileRules> = {
+  none: {},
+  telegram: { unit: "utf16", linkLabelsOnly: true },
+  x: { unit: "codepoints", urlLength: 23 },
+  mastodon: { unit: "codepoints", urlLength: 23 },
+  bluesky: { unit: "graphemes", linkLabelsOnly: true },
+};
+
+const BARE_URL = /\bhttps?:\/\/[^\s<>]+[^\s<>.,;:!?)\]'"]/g;
+
+// Han ideographs and Japanese kana, each counted as a word in the "cjk" mode
+const CJK_CHAR = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/gu;
+// CJK and full-width punctuation, which is not a word on its own
+const CJK_PUNCTUATION = /[\u3000-\u303F\uFF01-\uFF0F\uFF1A-\uFF20\uFF3B-\uFF40\uFF5B-\uFF65]/g;
+
+// Intl.Segmenter is missing from the ES6 typings and from older mobile WebViews
+interface Segmenter {
+  segment(text: string): Iterable<{ segment: string; isWordLike?: boolean }>;
+}
+const IntlSegmenter = (Intl as unknown as {
+  Segmenter?: new (locale?: string, options?: { granularity: "word" | "grapheme" }) => Segmenter;
+}).Segmenter;
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+/**
+ * Identifies the options a preset counts with. Names, status bar toggles and
+ * targets don't change metrics, so editing them doesn't invalidate the index.
+ */
+export function presetKey(preset: Preset): string {
+  return JSON.stringify([
+    COUNTING_VERSION,
+    ...Object.keys(preset)
+      .filter((k) => !/^(id|name|targets|show[A-Z].*|writeFrontmatter|frontmatter[A-Z].*)$/.test(k))
+      .sort()
+      .map((k) => [k, preset[k as keyof Preset]]),
+  ]);
+}
+
+// crypto.randomUUID is global only from Node 19; the command-line tool runs on Node 16
+const randomUUID = (globalThis as { crypto?: { randomUUID?: () => string } }).crypto?.randomUUID;
+
+/** An id for a preset or custom counter; random, but not necessarily a UUID outside the app. */
+export function randomId(): string {
+  if (randomUUID) return randomUUID.call(globalThis.crypto);
+  return Date.now().toString(36) + Math.random().toString(36).slice(2, 10);
+}
+
+/** Compiles a custom counter pattern, plain or as /pattern/flags; throws on invalid syntax. */
+export function parseCounterPattern(pattern: string): RegExp {
+  const literal = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  const [source, flags] = literal ? [literal[1], literal[2]] : [pattern, "mu"];
+  return new RegExp(source, flags.includes("g") ? flags : `${flags}g`);
+}
+
+/** Rounds to one decimal place. */
+export function round1(n: number): number {
+  return Math.round(n * 10) / 10;
+}
+
+/** Rounds to two decimal places. */
+export function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/** Quotes a CSV field when needed. */
+export function csvField(value: string | number): string {
+  const s = String(value);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/**
+ * Parses a target from frontmatter: `8000` (maximum), `"5000-8000"` (range)
+ * or `{ min: 5000, max: 8000 }`.
+ */
+export function parseTarget(value: unknown): MetricTarget | undefined {
+  const num = (v: unknown) => {
+    const n = typeof v === "number" ? v : parseFloat(String(v));
+    return isFinite(n) && n > 0 ? n : undefined;
+  };
+
+  if (typeof value === "number") return num(value) !== undefined ? { max: value } : undefined;
+  if (typeof value === "string") {
+    const range = value.match(/^\s*([\d.]+)\s*[-–]\s*([\d.]+)\s*$/);
+    if (range) return { min: num(range[1]), max: num(range[2]) };
+    const max = num(value);
+    return max !== undefined ? { max } : undefined;
+  }
+  if (value && typeof value === "object") {
+    const { min, max } = value as Record<string, unknown>;
+    const target = { min: num(min), max: num(max) };
+    return target.min !== undefined || target.max !== undefined ? target : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Presets from shared JSON: an export, a list of presets or a single preset.
+ * Throws with a message for the user, in the language of `t`, when there is nothing to import.
+ */
+export function parsePresets(json: string, t: Locale): Partial<Preset>[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error(t.importInvalidJson);
+  }
+  const list: unknown[] = Array.isArray(data) ? data : isRecord(data) && Array.isArray(data.presets) ? data.presets : [data];
+  if (list.length === 0) throw new Error(t.importEmpty);
+  return list.map((entry, i) => {
+    if (!isRecord(entry) || typeof entry.name !== "string" || !entry.name.trim()) throw new Error(t.importInvalidPreset(i + 1));
+    return sanitizePreset(entry, t);
+  });
+}
+
+/** Options of an imported preset that are valid; the rest is left to the defaults. */
+export function sanitizePreset(entry: Record<string, unknown>, t: Locale): Partial<Preset> {
+  const defaults = defaultPreset();
+  const preset: Record<string, unknown> = {};
+  for (const key of Object.keys(defaults) as (keyof Preset)[]) {
+    const value = entry[key];
+    const fallback = defaults[key];
+    if (key === "id" || value === undefined || value === null) continue;
+    if (Array.isArray(fallback) !== Array.isArray(value) || typeof fallback !== typeof value) continue;
+    if (typeof value === "number" && !(isFinite(value) && value > 0)) continue;
+    preset[key] = value;
+  }
+
+  const oneOf = <T extends string>(value: unknown, allowed: T[]) => allowed.indexOf(value as T) >= 0;
+  if (!oneOf(preset.pageModel, PAGE_MODELS)) delete preset.pageModel;
+  if (!oneOf(preset.wordSegmentation, WORD_SEGMENTATIONS)) delete preset.wordSegmentation;
+  if (!oneOf(preset.charCounting, CHAR_COUNTINGS)) delete preset.charCounting;
+  if (!oneOf(preset.charProfile, Object.keys(CHAR_PROFILES))) delete preset.charProfile;
+
+  if (preset.excludedHeadings) {
+    preset.excludedHeadings = (preset.excludedHeadings as unknown[]).filter((h) => typeof h === "string");
+  }
+  if (preset.customCounters) {
+    preset.customCounters = (preset.customCounters as unknown[]).filter(isRecord).map((c, i): CustomCounter => ({
+      id: randomId(),
+      label: typeof c.label === "string" && c.label.trim() ? c.label : t.customCounterName(i + 1),
+      matcher: oneOf(c.matcher, COUNTER_MATCHERS) ? c.matcher as CustomMatcher : "regex",
+      pattern: typeof c.pattern === "string" ? c.pattern : "",
+      source: c.source === "raw" ? "raw" : "text",
+      unique: c.unique === true,
+      show: c.show !== false,
+    }));
+  }
+  if (preset.targets) {
+    const targets: Targets = {};
+    for (const metric of TARGET_METRICS) {
+      const target = parseTarget((preset.targets as Record<string, unknown>)[metric]);
+      if (target) targets[metric] = target;
+    }
+    preset.targets = targets;
+  }
+  if (preset.frontmatterProperties) {
+    const properties: FrontmatterProperties = {};
+    for (const key of METRIC_KEYS) {
+      const property = (preset.frontmatterProperties as Record<string, unknown>)[key];
+      if (typeof property === "string" && property.trim()) properties[key] = property.trim();
+    }
+    preset.frontmatterProperties = properties;
+  }
+  return preset as Partial<Preset>;
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// ── Engine ────────────────────────────────────────────────────────────────────
+
+export class CountingEngine {
+  private wordSegmenter?: Segmenter;
+  private graphemeSegmenter?: Segmenter;
+  // Compiled custom counter patterns; null for invalid ones
+  private counterPatterns: Map<string, RegExp | null> = new Map();
+
+  // ── Preset filters ────────────────────────────────────────────────────────
+
+  /**
+   * Applies the preset's toggles to every span of the document. Removed spans
+   * are kept with empty text, so structural counters still see them.
+   */
+  filterSpans(
+    doc: MarkdownDocument,
+    preset: Preset,
+    excluded: Set<Block> = this.excludedBlocks(doc, preset),
+    context?: EmbedContext,
+  ): FilteredSpan[] {
+    const out: FilteredSpan[] = [];
+    const scope = { off: false };
+    for (const block of doc.blocks) {
+      if (excluded.has(block)) {
+        for (const span of block.spans) {
+          this.scopeMarker(span, preset, scope);
+          out.push({ span, text: "", excluded: true });
+        }
+      } else {
+        this.filterInline(block.spans, preset, out, scope, context);
+      }
+    }
+    return out;
+  }
+
+  /**
+   * Blocks left out by the preset's scope rules: excluded sections, callouts,
+   * tables, footnotes, block quotes and blocks wholly inside wc:off regions.
+   */
+  excludedBlocks(doc: MarkdownDocument, preset: Preset): Set<Block> {
+    const excluded = new Set<Block>();
+    const headings = new Set(preset.excludedHeadings.map((h) => h.trim().toLowerCase()).filter(Boolean));
+    const scope = { off: false };
+    let sectionLevel = 0; // level of the excluded section we are in, 0 if none
+
+    for (const block of doc.blocks) {
+      if (block.kind === "heading") {
+        const level = block.level ?? 1;
+        if (sectionLevel && level <= sectionLevel) sectionLevel = 0;
+        // "7. References" matches "References"
+        const name = (block.heading ?? "").replace(/^[\d.]+\s*/, "").toLowerCase();
+        if (!sectionLevel && preset.excludeSections && headings.has(name)) sectionLevel = level;
+      }
+
+      const offAtStart = scope.off;
+      let marked = false;
+      for (const span of block.spans) marked = this.scopeMarker(span, preset, scope) || marked;
+
+      if (
+        sectionLevel ||
+        (offAtStart && !marked) ||
+        (preset.ignoreCallouts && block.kind === "callout") ||
+        (preset.ignoreTables && block.kind === "table") ||
+        (preset.ignoreFootnotes && block.kind === "footnote") ||
+        (preset.ignoreBlockQuotes && block.kind === "quote")
+      ) {
+        excluded.add(block);
+      }
+    }
+    return excluded;
+  }
+
+  /** Updates `scope` if the span is a wc:off / wc:on comment; returns whether it was one. */
+  private scopeMarker(span: Span, preset: Preset, scope: { off: boolean }): boolean {
+    if (!preset.excludeMarkedRegions || span.kind !== "comment") return false;
+    const marker = SCOPE_MARKER.exec(span.text);
+    if (!marker) return false;
+    scope.off = marker[1].toLowerCase() === "off";
+    return true;
+  }
+
+  private filterInline(
+    spans: Span[],
+    preset: Preset,
+    out: FilteredSpan[],
+    scope: { off: boolean },
+    context?: EmbedContext,
+  ) {
+    let label = "";
+    for (const span of spans) {
+      if (this.scopeMarker(span, preset, scope) || scope.off) {
+        out.push({ span, text: "", excluded: scope.off });
+        continue;
+      }
+
+      switch (span.kind) {
+        case "prose":
+        case "break":
+        case "listMarker":
+          out.push({ span, text: span.text });
+          break;
+
+        case "comment":
+          // Comment content is counted like the rest of the note unless ignored
+          if (preset.ignoreComments) out.push({ span, text: "" });
+          else this.filterInline(tokenizeInline(span.text, span.from), preset, out, scope, context);
+          break;
+
+        case "linkLabel":
+          label += span.text;
+          out.push({ span, text: span.text });
+          break;
+
+        case "linkUrl": {
+          // [label](url) → "label url", (url)[label] → "url label", or only the label
+          const url = span.text.trim();
+          const reversed = out[out.length - 1]?.span.text === "(";
+          let text = "";
+          if (!preset.countMdLinksAsWords && url) text = reversed ? `${url} ` : label.trim() ? ` ${url}` : url;
+          out.push({ span, text });
+          label = "";
+          break;
+        }
+
+        case "wikilink":
+          if (span.link!.embed && preset.countEmbeds && context) {
+            out.push({ span, text: "" });
+            this.filterEmbed(span.link!, preset, out, context);
+          } else {
+            out.push({ span, text: this.wikiLinkText(span.link!, preset) });
+          }
+          break;
+
+        case "citekey":
+        case "citeAffix":
+          // Prefixes and locators ("see", "p. 4") go with the keys they belong to
+          out.push({ span, text: preset.countCitekeysAsWords ? "" : span.text });
+          break;
+
+        default:
+          // markup, frontmatter, code, math and images never count
+          out.push({ span, text: "" });
+      }
+    }
+  }
+
+  private wikiLinkText(link: WikiLinkParts, preset: Preset): string {
+    if (preset.ignoreWikiLinks) return "";
+    // [[Page|Alias]] → "Alias", [[Page]] → "Page"
+    if (preset.countWikiLinkDisplayText) return link.alias || link.target;
+    // Count every word inside: [[Page#Heading|Alias]] → "Page Heading Alias"
+    return [link.target, link.subpath.replace(/#/g, " "), link.alias].filter(Boolean).join(" ");
+  }
+
+  /**
+   * Counts an embedded note, heading section or block in place of the embed.
+   * Notes that aren't loaded yet are left out; the plugin recounts once they are.
+   */
+  private filterEmbed(link: WikiLinkParts, preset: Preset, out: FilteredSpan[], context: EmbedContext) {
+    const path = context.source.locate(link, context.chain[context.chain.length - 1]);
+    if (!path) return;
+    if (context.chain.length > EMBED_DEPTH_LIMIT || context.chain.includes(path)) return;
+
+    const raw = context.source.read(path, link.subpath);
+    if (raw === undefined) return;
+
+    const inner: EmbedContext = { ...context, chain: [...context.chain, path] };
+    const embedded = this.filterSpans(tokenize(raw), preset, undefined, inner);
+    for (const f of embedded) out.push({ ...f, embed: f.embed ?? path });
+
+    const words = this.countWords(this.wordText(embedded), preset.wordSegmentation);
+    context.words.set(path, (context.words.get(path) ?? 0) + words);
+  }
+
+  /** Text that words are counted in: everything kept except list markers. */
+  wordText(filtered: FilteredSpan[]): string {
+    return filtered.map((f) => (f.span.kind === "listMarker" ? "" : f.text)).join("");
+  }
+
+  // ── Counters ──────────────────────────────────────────────────────────────
+
+  /**
+   * Pass an embed context to count embedded notes (if the preset does), and a
+   * block cache, inside its use(), to recount only the blocks that changed.
+   */
+  computeMetrics(raw: string, preset: Preset, context?: EmbedContext, cache?: BlockCache): Metrics {
+    return this.documentMetrics(cache ? cache.tokenize(raw) : tokenize(raw), preset, context, cache);
+  }
+
+  documentMetrics(doc: MarkdownDocument, preset: Preset, context?: EmbedContext, cache?: BlockCache): Metrics {
+    const excluded = this.excludedBlocks(doc, preset);
+    const blocks = this.countBlocks(doc, preset, excluded, context, cache);
+    const sum = (read: (b: BlockCount) => number) => blocks.reduce((total, b) => total + read(b), 0);
+
+    const wordsWithSpaces = sum((b) => b.words);
+    const charsWithSpaces = sum((b) => b.chars);
+    const charsWithoutSpaces = sum((b) => b.charsNoSpaces);
+    const typesetLines = preset.pageModel === "layout" ? this.countTypesetLines(blocks, preset) : 0;
+    const citedKeys = [...new Set(([] as string[]).concat(...blocks.map((b) => b.citedKeys)))];
+    const reading: ReadingCounts = {
+      words: sum((b) => b.reading.words),
+      syllables: sum((b) => b.reading.syllables),
+      cyrillic: sum((b) => b.reading.cyrillic),
+    };
+
+    return {
+      wordsWithSpaces,
+      charsWithSpaces,
+      charsWithoutSpaces,
+      pages: this.countPages({ wordsWithSpaces, charsWithSpaces, charsWithoutSpaces, typesetLines }, preset),
+      authorSheets: round2(charsWithSpaces / AUTHOR_SHEET_CHARS),
+      typesetLines,
+      lines: this.countLines(doc),
+      paragraphs: this.countParagraphs(doc, excluded),
+      markdownLinks: sum((b) => b.markdownLinks),
+      wikiLinks: sum((b) => b.wikiLinks),
+      citekeys: sum((b) => b.citekeys),
+      uniqueCitekeys: citedKeys.length,
+      citedKeys,
+      cjkChars: sum((b) => b.cjkChars),
+      ...this.textStatistics(wordsWithSpaces, this.countSentences(doc, excluded, blocks), reading, preset),
+      // Patterns may span blocks, so custom counters run on the whole text
+      custom: preset.customCounters.length > 0
+        ? this.countCustom(preset, this.rawText(doc), blocks.map((b) => b.text).join(""))
+        : {},
+    };
+  }
+
+  /**
+   * Counts of the blocks that aren't excluded. Blocks with the same text and
+   * wc:off state as in the last count are taken from the cache, if given.
+   */
+  countBlocks(
+    doc: MarkdownDocument,
+    preset: Preset,
+    excluded: Set<Block> = this.excludedBlocks(doc, preset),
+    context?: EmbedContext,
+    cache?: BlockCache,
+  ): BlockCount[] {
+    const counts: BlockCount[] = [];
+    const scope = { off: false };
+    for (const block of doc.blocks) {
+      if (excluded.has(block)) {
+        for (const span of block.spans) this.scopeMarker(span, preset, scope);
+        continue;
+      }
+
+      const scopeOff = scope.off;
+      let count = cache?.get(doc, block, scopeOff);
+      if (!count) {
+        const filtered: FilteredSpan[] = [];
+        this.filterInline(block.spans, preset, filtered, scope, context);
+        count = this.countBlock(block.kind, filtered, preset, scope.off);
+        // Embedded notes change on their own, so blocks with embeds are always recounted
+        if (cache && !filtered.some((f) => f.embed || f.span.link?.embed)) cache.set(doc, block, scopeOff, count);
+      }
+      scope.off = count.scopeOff;
+      counts.push(count);
+    }
+    return counts;
+  }
+
+  private countBlock(kind: BlockKind, filtered: FilteredSpan[], preset: Preset, scopeOff: boolean): BlockCount {
+    const text = this.wordText(filtered);
+    return {
+      text,
+      words: this.countWords(text, preset.wordSegmentation),
+      chars: this.countCharsWithSpaces(filtered, preset),
+      charsNoSpaces: this.countCharsWithoutSpaces(filtered, preset),
+      markdownLinks: this.countSpans(filtered, "linkUrl"),
+      wikiLinks: this.countSpans(filtered, "wikilink"),
+      citekeys: this.countSpans(filtered, "citekey"),
+      citedKeys: this.citations(filtered).map((f) => f.span.text),
+      cjkChars: this.countCjkChars(text),
+      sentences: this.blockSentences(this.sentenceText(filtered)),
+      reading: this.readingCounts(text),
+      typeset: preset.pageModel === "layout" ? this.typesetLines(kind, filtered, preset) : [],
+      scopeOff,
+    };
+  }
+
+  /** Markdown of the document's blocks, which may be a slice of the note. */
+  rawText(doc: MarkdownDocument): string {
+    const { blocks } = doc;
+    return blocks.length > 0 ? doc.source.slice(blocks[0].from, blocks[blocks.length - 1].to) : "";
+  }
+
+  countCustom(preset: Preset, raw: string, text: string): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (const counter of preset.customCounters) {
+      const builtin = counter.matcher === "regex" ? undefined : BUILTIN_MATCHERS[counter.matcher];
+      const pattern = builtin?.pattern ?? this.counterPattern(counter.pattern);
+      const source = builtin?.source ?? counter.source;
+      counts[counter.id] = pattern ? this.countMatches(pattern, source === "raw" ? raw : text, counter.unique) : 0;
+    }
+    return counts;
+  }
+
+  /** Invalid patterns count nothing; the settings card reports them. */
+  private counterPattern(pattern: string): RegExp | null {
+    if (!pattern) return null;
+    let compiled = this.counterPatterns.get(pattern);
+    if (compiled === undefined) {
+      try { compiled = parseCounterPattern(pattern); } catch { compiled = null; }
+      this.counterPatterns.set(pattern, compiled);
+    }
+    return compiled;
+  }
+
+  countMatches(pattern: RegExp, text: string, unique: boolean): number {
+    const seen = new Set<string>();
+    let count = 0;
+    pattern.lastIndex = 0;
+    for (let m = pattern.exec(text); m; m = pattern.exec(text)) {
+      if (m[0] === "") { pattern.lastIndex++; continue; }
+      if (unique) seen.add(m[1] ?? m[0]);
+      else count++;
+    }
+    return unique ? seen.size : count;
+  }
+
+  /** Time estimates and readability from the counts of the text. */
+  textStatistics(words: number, sentences: number, reading: ReadingCounts, preset: Preset) {
+    return {
+      sentences,
+      avgSentenceLength: sentences > 0 ? round1(words / sentences) : 0,
+      readingTime: round1(words / preset.readingWpm),
+      speakingTime: round1(words / preset.speakingWpm),
+      readability: this.readability(reading, sentences),
+    };
+  }
+
+  /**
+   * Sentences of the counted blocks. Lines of a paragraph, quote or callout are
+   * joined; any other block ends the sentence before it.
+   */
+  countSentences(doc: MarkdownDocument, excluded: Set<Block>, counts: BlockCount[]): number {
+    let total = 0;
+    let open = false; // a sentence goes on from the last counted block
+    let previous: Block | undefined;
+    let i = 0;
+    for (const block of doc.blocks) {
+      if (excluded.has(block)) { previous = undefined; continue; }
+      const { closed, leads, open: opens } = counts[i++].sentences;
+      const joins = open && previous !== undefined && this.continuesLine(previous, block);
+      if (open && !joins) total++;
+      total += closed;
+      if (joins && leads) total++;
+      open = opens || (joins && closed === 0 && !leads);
+      previous = block;
+    }
+    return open ? total + 1 : total;
+  }
+
+  /** Whether a block is the next line of the paragraph, quote or callout before it. */
+  private continuesLine(previous: Block, block: Block): boolean {
+    if (block.kind === "paragraph") return previous.kind === "paragraph" || previous.kind === "listItem" || previous.kind === "footnote";
+    return block.kind === previous.kind && (block.kind === "quote" || block.kind === "callout");
+  }
+
+  /** Text sentences are found in: one line, without citations and their full stops ("p. 4"). */
+  private sentenceText(filtered: FilteredSpan[]): string {
+    return filtered
+      .map((f) => {
+        if (f.span.kind === "listMarker") return "";
+        // A citation after a full stop belongs to the sentence before it: "Hello world. [@a, p. 4]"
+        if (f.span.kind === "citekey" || f.span.kind === "citeAffix") return "";
+        return f.text;
+      })
+      .join("")
+      .replace(/\n/g, " ");
+  }
+
+  blockSentences(text: string): SentenceCount {
+    const count: SentenceCount = { closed: 0, leads: false, open: false };
+    let start = 0;
+    let first = true;
+    SENTENCE_END.lastIndex = 0;
+    for (let m = SENTENCE_END.exec(text); m; m = SENTENCE_END.exec(text)) {
+      if (m[0].startsWith(".") && !m[0].startsWith("..") && this.isAbbreviation(text, m.index)) continue;
+      if (HAS_LETTER.test(text.slice(start, m.index))) count.closed++;
+      else if (first) count.leads = true;
+      first = false;
+      start = m.index + m[0].length;
+    }
+    count.open = HAS_LETTER.test(text.slice(start));
+    return count;
+  }
+
+  /** Whether the word before a full stop at `end` is an abbreviation or an initial. */
+  private isAbbreviation(text: string, end: number): boolean {
+    const word = /[^\s([{"'«“]*$/.exec(text.slice(Math.max(0, end - 24), end))![0];
+    return ABBREVIATIONS.has(word.toLowerCase()) || ABBREVIATION.test(word);
+  }
+
+  readingCounts(text: string): ReadingCounts {
+    const counts: ReadingCounts = { words: 0, syllables: 0, cyrillic: 0 };
+    for (const word of text.split(/\s+/)) {
+      if (!HAS_LETTER.test(word)) continue;
+      counts.words++;
+      if (CYRILLIC.test(word)) counts.cyrillic++;
+      counts.syllables += this.countSyllables(word);
+    }
+    return counts;
+  }
+
+  /** Flesch reading ease; the formula is Russian if most words are Cyrillic. */
+  readability(reading: ReadingCounts, sentences: number): number {
+    const { words, syllables, cyrillic } = reading;
+    if (words === 0 || sentences === 0) return 0;
+    const f = cyrillic > words / 2 ? FLESCH.ru : FLESCH.en;
+    return round1(f.base - f.sentence * (words / sentences) - f.word * (syllables / words));
+  }
+
+  /** Every Russian vowel is a syllable; English syllables are groups of vowels, less a silent e. */
+  countSyllables(word: string): number {
+    if (CYRILLIC.test(word)) return (word.match(RUSSIAN_VOWELS) ?? []).length;
+    const w = word.toLowerCase().replace(/[^a-z]/g, "");
+    if (!w) return 0;
+    if (w.length <= 3) return 1;
+    const stem = w.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, "").replace(/^y/, "");
+    return Math.max((stem.match(/[aeiouy]{1,2}/g) ?? []).length, 1);
+  }
+
+  countWords(text: string, mode: WordSegmentation): number {
+    switch (mode) {
+      case "whitespace": return this.countWordsWithSpaces(text);
+      case "unicode":    return this.countWordsUnicode(text);
+      case "cjk":        return this.countWordsCjk(text);
+    }
+  }
+
+  /** Traditional word count: space-separated tokens after preprocessing. */
+  countWordsWithSpaces(preprocessed: string): number {
+    const trimmed = preprocessed.trim();
+    // split(/\s+/) on a non-empty trimmed string never produces empty tokens
+    return trimmed ? trimmed.split(/\s+/).length : 0;
+  }
+
+  /** Word-like segments by Unicode rules; falls back to spaces where unsupported. */
+  countWordsUnicode(text: string): number {
+    if (!IntlSegmenter) return this.countWordsWithSpaces(text);
+    this.wordSegmenter ??= new IntlSegmenter(undefined, { granularity: "word" });
+    let count = 0;
+    for (const segment of this.wordSegmenter.segment(text)) if (segment.isWordLike) count++;
+    return count;
+  }
+
+  /** Each CJK character is a word, the remaining text is split on spaces. */
+  countWordsCjk(text: string): number {
+    const cjk = this.countCjkChars(text);
+    const rest = text.replace(CJK_CHAR, " ").replace(CJK_PUNCTUATION, " ");
+    return cjk + this.countWordsWithSpaces(rest);
+  }
+
+  countCjkChars(text: string): number {
+    return (text.match(CJK_CHAR) ?? []).length;
+  }
+
+  private substituteListMarkers(filtered: FilteredSpan[], countSpaces: boolean, rules: CharProfileRules = {}): string {
+    const u = countSpaces ? "\x01\x02"      : "\x01";        // unordered / checkbox
+    const n = countSpaces ? "\x01\x02\x03"  : "\x01\x02";   // numbered
+    return filtered
+      .map((f) => (f.span.kind !== "listMarker" ? this.profileText(f, rules) : f.span.marker === "ordered" ? n : u))
+      .join("");
+  }
+
+  /** The text of a span as the target platform would render and count it. */
+  private profileText(f: FilteredSpan, rules: CharProfileRules): string {
+    const { span, text } = f;
+    if (!text) return text;
+    if (rules.linkLabelsOnly) {
+      if (span.kind === "linkUrl") return "";
+      if (span.kind === "wikilink") return span.link!.alias || span.link!.target;
+    }
+    if (rules.urlLength !== undefined) {
+      const url = "\x01".repeat(rules.urlLength);
+      if (span.kind === "linkUrl") return text.replace(/\S+/, url);
+      if (span.kind === "prose") return text.replace(BARE_URL, url);
+    }
+    return text;
+  }
+
+  /** Length of `text` in the given unit. */
+  measureChars(text: string, unit: CharCounting): number {
+    switch (unit) {
+      case "utf16":
+        return text.length;
+      case "codepoints":
+        // Every surrogate pair is a single code point
+        return text.length - (text.match(/[\uD800-\uDBFF][\uDC00-\uDFFF]/g) ?? []).length;
+      case "graphemes": {
+        if (!IntlSegmenter) return this.measureChars(text, "codepoints");
+        this.graphemeSegmenter ??= new IntlSegmenter(undefined, { granularity: "grapheme" });
+        let count = 0;
+        for (const _ of this.graphemeSegmenter.segment(text)) count++;
+        return count;
+      }
+    }
+  }
+
+  /** Character count including spaces and linebreaks, after preprocessing. */
+  countCharsWithSpaces(filtered: FilteredSpan[], preset: Preset): number {
+    const rules = CHAR_PROFILES[preset.charProfile];
+    return this.measureChars(this.substituteListMarkers(filtered, true, rules), rules.unit ?? preset.charCounting);
+  }
+
+  /** Character count excluding all whitespace, after preprocessing. */
+  countCharsWithoutSpaces(filtered: FilteredSpan[], preset: Preset): number {
+    const rules = CHAR_PROFILES[preset.charProfile];
+    const text = this.substituteListMarkers(filtered, false, rules).replace(/\s/g, "");
+    return this.measureChars(text, rules.unit ?? preset.charCounting);
+  }
+
+  countLines(doc: MarkdownDocument): number {
+    return doc.lines;
+  }
+
+  /** Pages by the preset's page model, e.g. "12.4". */
+  countPages(m: Pick<Metrics, "wordsWithSpaces" | "charsWithSpaces" | "charsWithoutSpaces" | "typesetLines">, preset: Preset): string {
+    const pages: Record<PageModel, number> = {
+      words: m.wordsWithSpaces / preset.wordsPerPage,
+      chars: m.charsWithSpaces / preset.charsPerPage,
+      charsNoSpaces: m.charsWithoutSpaces / preset.charsPerPage,
+      layout: m.typesetLines / preset.linesPerPage,
+    };
+    return pages[preset.pageModel].toFixed(1);
+  }
+
+  /** Characters of every source line of a block; lines of embedded notes are set as paragraphs. */
+  private typesetLines(kind: BlockKind, filtered: FilteredSpan[], preset: Preset): TypesetLine[] {
+    const lines: TypesetLine[] = [];
+    let text = "";
+    let lineKind: BlockKind | undefined;
+    const endLine = () => {
+      if (lineKind) lines.push([lineKind, this.measureChars(text.trim(), preset.charCounting)]);
+      text = "";
+      lineKind = undefined;
+    };
+
+    for (const f of filtered) {
+      if (f.excluded) continue;
+      f.text.split("\n").forEach((part, i) => {
+        if (i > 0) endLine();
+        text += part;
+        lineKind = lineKind ?? (f.embed ? "paragraph" : kind);
+      });
+    }
+    endLine();
+    return lines;
+  }
+
+  /**
+   * Lines the counted text fills at the preset's characters per line. Paragraphs,
+   * list items and code lines start a new line, a heading is followed by a blank
+   * line, and the lines of a soft-wrapped paragraph run on.
+   */
+  countTypesetLines(blocks: BlockCount[], preset: Preset): number {
+    let lines = 0;
+    let paragraph = 0; // characters of the paragraph being set
+    const endParagraph = () => {
+      lines += Math.ceil(paragraph / preset.charsPerLine);
+      paragraph = 0;
+    };
+
+    for (const block of blocks) {
+      for (const [kind, chars] of block.typeset) {
+        if (chars === 0) {
+          endParagraph();
+        } else if (kind === "paragraph" && paragraph > 0) {
+          paragraph += chars + 1; // joined by a space
+        } else {
+          endParagraph();
+          paragraph = chars;
+          if (kind === "heading") { endParagraph(); lines++; }
+        }
+      }
+    }
+    endParagraph();
+    return lines;
+  }
+
+  /** Runs of non-blank blocks, not counting frontmatter and excluded blocks. */
+  countParagraphs(doc: MarkdownDocument, excluded: Set<Block> = new Set()): number {
+    let count = 0;
+    let inParagraph = false;
+    for (const block of doc.blocks) {
+      const content = block.kind !== "blank" && block.kind !== "frontmatter" && !excluded.has(block);
+      if (content && !inParagraph) count++;
+      inParagraph = content;
+    }
+    return count;
+  }
+
+  /**
+   * Markdown links, wikilinks and citekeys are counted even when their text is
+   * ignored, but not in excluded parts of the note.
+   */
+  countSpans(filtered: FilteredSpan[], kind: SpanKind): number {
+    return filtered.filter((f) => f.span.kind === kind && !f.excluded).length;
+  }
+
+  /** Citations of the note itself, not of embedded notes or excluded parts. */
+  citations(filtered: FilteredSpan[]): FilteredSpan[] {
+    return filtered.filter((f) => f.span.kind === "citekey" && !f.excluded && !f.embed);
+  }
+
+  /** Every cited key of the note with the offsets of its citations. */
+  collectCitations(raw: string, preset: Preset): Map<string, number[]> {
+    const citations = new Map<string, number[]>();
+    for (const { span } of this.citations(this.filterSpans(tokenize(raw), preset))) {
+      const offsets = citations.get(span.text);
+      if (offsets) offsets.push(span.from);
+      else citations.set(span.text, [span.from]);
+    }
+    return citations;
+  }
+
+  /** Sums text cards and, if the preset counts them, the notes on file cards. */
+  canvasMetrics(nodes: CanvasNode[], preset: Preset, context: EmbedContext): Metrics {
+    const all: Metrics[] = [];
+    for (const node of nodes) {
+      if (node.type === "text") {
+        all.push(this.computeMetrics(node.text ?? "", preset, context));
+      } else if (node.type === "file" && preset.countCanvasFiles && node.file?.endsWith(".md")) {
+        const raw = context.source.read(node.file, (node.subpath ?? "").replace(/^#/, ""));
+        if (raw !== undefined) all.push(this.computeMetrics(raw, preset, { ...context, chain: [node.file] }));
+      }
+    }
+    return this.sumMetrics(all, preset);
+  }
+
+  /** Totals of several notes counted with the same preset. */
+  sumMetrics(all: Metrics[], preset: Preset): Metrics {
+    const total = {} as Metrics;
+    for (const key of METRIC_KEYS) {
+      if (key === "pages") continue;
+      (total[key] as number) = all.reduce((sum, m) => sum + (m[key] as number), 0);
+    }
+    total.custom = {};
+    total.citedKeys = [...new Set(([] as string[]).concat(...all.map((m) => m.citedKeys ?? [])))];
+    total.uniqueCitekeys = total.citedKeys.length;
+    for (const m of all) {
+      const custom = m.custom ?? {};
+      for (const id of Object.keys(custom)) total.custom[id] = (total.custom[id] ?? 0) + custom[id];
+    }
+    const words = total.wordsWithSpaces;
+    total.typesetLines = all.reduce((sum, m) => sum + (m.typesetLines ?? 0), 0);
+    total.pages = this.countPages(total, preset);
+    total.authorSheets = round2(total.charsWithSpaces / AUTHOR_SHEET_CHARS);
+    total.avgSentenceLength = total.sentences > 0 ? round1(words / total.sentences) : 0;
+    total.readingTime = round1(words / preset.readingWpm);
+    total.speakingTime = round1(words / preset.speakingWpm);
+    // Readability of the notes together is close to their average, weighted by words
+    total.readability = words > 0 ? round1(all.reduce((sum, m) => sum + m.readability * m.wordsWithSpaces, 0) / words) : 0;
+    return total;
+  }
+}
+
+// ── Block cache ───────────────────────────────────────────────────────────────
+
+/**
+ * Counts of the blocks of a note that is being edited. An edit changes a block
+ * or two, so a recount takes the others from here.
+ */
+export class BlockCache {
+  private presetKey = "";
+  private entries: Map<string, BlockCount> = new Map();
+  private used: Map<string, BlockCount> = new Map();
+  private document?: MarkdownDocument;
+  private keys: WeakMap<Block, { key: string; scopeOff: boolean }> = new WeakMap();
+
+  /** Runs counts with one preset; blocks they don't use are dropped afterwards. */
+  use<T>(preset: Preset, count: () => T): T {
+    const key = presetKey(preset);
+    if (key !== this.presetKey) {
+      this.presetKey = key;
+      this.entries = new Map();
+    }
+    this.used = new Map();
+    try {
+      return count();
+    } finally {
+      this.entries = this.used;
+    }
+  }
+
+  /** Tokenizes only the blocks that differ from the last source tokenized. */
+  tokenize(source: string): MarkdownDocument {
+    this.document = this.document ? retokenize(this.document, source) : tokenize(source);
+    return this.document;
+  }
+
+  /** Count of a block with the same kind, text and wc:off state as one counted before. */
+  get(doc: MarkdownDocument, block: Block, scopeOff: boolean): BlockCount | undefined {
+    // Blocks kept by retokenize() are found without slicing and hashing their text again
+    const known = this.keys.get(block);
+    const key = known?.scopeOff === scopeOff ? known.key : BlockCache.key(doc, block, scopeOff);
+    const count = this.entries.get(key) ?? this.used.get(key);
+    if (count) {
+      this.used.set(key, count);
+      this.keys.set(block, { key, scopeOff });
+    }
+    return count;
+  }
+
+  set(doc: MarkdownDocument, block: Block, scopeOff: boolean, count: BlockCount) {
+    const key = BlockCache.key(doc, block, scopeOff);
+    this.used.set(key, count);
+    this.keys.set(block, { key, scopeOff });
+  }
+
+  /**
+   * A block is counted the same wherever it is, given its kind, text and wc:off
+   * state. Quotes may hold table rows, which only their spans tell apart.
+   */
+  private static key(doc: MarkdownDocument, block: Block, scopeOff: boolean): string {
+    const last = block.spans[block.spans.length - 1];
+    const end = last ? Math.max(block.to, last.from + last.text.length) : block.to;
+    const spans = block.kind === "quote" || block.kind === "callout" ? block.spans.map((s) => s.kind).join() : "";
+    return `${block.kind}${scopeOff ? "-" : "+"}${spans}:${doc.source.slice(block.from, end)}`;
+  }
+}
+
+// ── Embedded note texts ───────────────────────────────────────────────────────
+
+/**
+ * Texts of embedded notes, read on demand and kept until the note changes.
+ * Reading is asynchronous, so a note is counted again once its embeds are loaded.
+ */
+export class EmbedTexts {
+  private texts: Map<string, string> = new Map();
+  private pending: Map<string, Promise<void>> = new Map();
+  private read: (path: string) => Promise<string>;
+  private onLoad: () => void;
+
+  constructor(read: (path: string) => Promise<string>, onLoad: () => void) {
+    this.read = read;
+    this.onLoad = onLoad;
+  }
+
+  /** Text of the note, or undefined while it's being read. */
+  get(path: string): string | undefined {
+    const text = this.texts.get(path);
+    if (text === undefined) this.load(path);
+    return text;
+  }
+
+  /** Drops a changed note; true if it was loaded. */
+  forget(path: string): boolean {
+    return this.texts.delete(path);
+  }
+
+  get loading(): boolean {
+    return this.pending.size > 0;
+  }
+
+  /** Resolves when the notes being read are loaded; never rejects. */
+  loaded(): Promise<void> {
+    return Promise.all(this.pending.values()).then(() => undefined);
+  }
+
+  private load(path: string) {
+    if (this.pending.has(path)) return;
+    const pending = this.read(path)
+      // A note deleted or renamed while it's read counts as empty until it changes again
+      .then((text) => text, () => "")
+      .then((text) => {
+        this.pending.delete(path);
+        this.texts.set(path, text);
+        this.onLoad();
+      });
+    this.pending.set(path, pending);
+  }
+}
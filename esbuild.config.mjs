@@ -1,4 +1,5 @@
 import esbuild from "esbuild";
+import fs from "fs";
 import process from "process";
 import builtins from "builtin-modules";
 
@@ -8,6 +9,38 @@ THIS IS A GENERATED/BUNDLED FILE BY ESBUILD
 `;
 
 const prod = process.argv[2] === "production";
+const cli = process.argv[2] === "cli";
+const bench = process.argv[2] === "bench";
+const test = process.argv[2] === "test";
+
+// The command-line tool and the counting benchmark: the counting engine without Obsidian, run with Node
+if (cli || bench) {
+  await esbuild.build({
+    banner: cli ? { js: "#!/usr/bin/env node" } : undefined,
+    entryPoints: [cli ? "cli.ts" : "bench.ts"],
+    bundle: true,
+    platform: "node",
+    format: "cjs",
+    target: "node16",
+    logLevel: cli ? "info" : "warning",
+    outfile: cli ? "cli.js" : "bench.js",
+  });
+  process.exit(0);
+}
+
+// The tests, one bundle per tests/*.test.ts, run with node --test
+if (test) {
+  await esbuild.build({
+    entryPoints: fs.readdirSync("tests").filter((f) => f.endsWith(".test.ts")).map((f) => `tests/${f}`),
+    bundle: true,
+    platform: "node",
+    format: "cjs",
+    target: "node16",
+    logLevel: "warning",
+    outdir: "test-build",
+  });
+  process.exit(0);
+}
 
 const context = await esbuild.context({
   banner: { js: banner },
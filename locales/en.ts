@@ -6,22 +6,69 @@ const en = {
 
   // ── Commands ───────────────────────────────────────────────────────────────
   commandActivatePreset: (name: string) => `Switch to ${name} preset`,
+  commandCountFolder: "Count folder…",
+  menuCountFolder: "Count words in folder",
+  commandOpenSections: "Open section word count",
+  commandOpenStatistics: "Open writing statistics",
+  commandListCitations: "List citations in this note",
+  commandWriteFrontmatter: "Write metrics to frontmatter in folder…",
+  commandComparePresets: "Compare presets for this note",
+  commandComparePresetsFolder: "Compare presets for folder…",
 
   // ── Status bar ─────────────────────────────────────────────────────────────
   statusNoMetrics: "No metrics enabled",
-  statusTooltipSingle: (name: string) => `${name}`,
-  statusTooltipCycle: (name: string) => `${name}`,
+
+  // Popover shown when hovering the status bar
+  popoverSelection: "Selection",
+  popoverDocument: "Document",
+  popoverCycleHint: "Click the status bar to switch presets",
+  popoverCopyRow: "Copy row",
+  popoverEmbeds: "Words from embedded notes:",
+  popoverEmbed: (note: string, words: number) => `${note}: ${words}`,
+
+  // Why the preset in the status bar was chosen
+  presetSourceOverride: "Switched manually for this note",
+  presetSourceFrontmatter: (key: string) => `Set by the "${key}" frontmatter property`,
+  presetSourceRule: (type: string, pattern: string) => `Matched ${type.toLowerCase()} rule "${pattern}"`,
+  presetSourceDefault: "Default preset",
 
   // Status bar metric labels
-  statusWords: (n: number) => `Words: ${n}`,
-  statusChars: (n: number) => `Chars: ${n}`,
-  statusCharsNoSpaces: (n: number) => `Chars (no spaces): ${n}`,
+  statusWords: (n: number | string) => `Words: ${n}`,
+  statusChars: (n: number | string) => `Chars: ${n}`,
+  statusCharsNoSpaces: (n: number | string) => `Chars (no spaces): ${n}`,
   statusPages: (n: string) => `Pages: ${n}`,
-  statusLines: (n: number) => `Lines: ${n}`,
-  statusParas: (n: number) => `Paras: ${n}`,
-  statusMdLinks: (n: number) => `MD Links: ${n}`,
-  statusWikiLinks: (n: number) => `Wikilinks: ${n}`,
-  statusCitekeys: (n: number) => `Citekeys: ${n}`,
+  statusAuthorSheets: (n: number | string) => `Author's sheets: ${n}`,
+  statusLines: (n: number | string) => `Lines: ${n}`,
+  statusParas: (n: number | string) => `Paras: ${n}`,
+  statusMdLinks: (n: number | string) => `MD Links: ${n}`,
+  statusWikiLinks: (n: number | string) => `Wikilinks: ${n}`,
+  statusCitekeys: (n: number | string) => `Citekeys: ${n}`,
+  statusUniqueCitekeys: (n: number | string) => `Sources: ${n}`,
+  statusCjkChars: (n: number | string) => `CJK: ${n}`,
+  statusSentences: (n: number | string) => `Sentences: ${n}`,
+  statusAvgSentenceLength: (n: number | string) => `Words/sentence: ${n}`,
+  statusReadingTime: (time: string) => `Reading: ${time}`,
+  statusSpeakingTime: (time: string) => `Speaking: ${time}`,
+  statusReadability: (n: number | string) => `Readability: ${n}`,
+  statusCustom: (label: string, n: number | string) => `${label}: ${n}`,
+  durationUnderMinute: "<1 min",
+  durationMinutes: (m: number) => `${m} min`,
+  durationHours: (h: number, m: number) => (m > 0 ? `${h} h ${m} min` : `${h} h`),
+  statusTargetSuffix: (target: string, percent: number) => ` / ${target} (${percent}%)`,
+
+  // Writing goals
+  statusToday: (words: string, goal: string) => `${words.startsWith("-") ? "" : "+"}${words} today / ${goal}`,
+  statusDeadline: (perDay: string, date: string) => `${perDay} / day until ${date}`,
+  statusDeadlineReached: "Deadline target reached",
+  statusDeadlinePassed: (date: string) => `Deadline passed (${date})`,
+
+  // File explorer badges
+  badges: {
+    wordsWithSpaces: (n: string) => n,
+    pages: (n: string) => `${n} p.`,
+    charsWithSpaces: (n: string) => `${n} ch.`,
+    charsWithoutSpaces: (n: string) => `${n} ch.`,
+  },
 
   // ── Settings page ──────────────────────────────────────────────────────────
   settingsHeading: "Advanced Word Count settings",
@@ -29,32 +76,388 @@ const en = {
   settingsPresetsName: "Create preset",
   settingsPresetsDesc: "Use presets to set individual mertics for different writing purposes",
   settingsAddPreset: "Add preset",
+  settingsShareName: "Share presets",
+  settingsShareDesc: "Copy all presets as JSON or save them to a file, and import presets shared by others",
+  settingsExportAll: "Copy all",
+  settingsSaveFile: "Save to file",
+  settingsImport: "Import…",
   settingsSeparatorName: "Metrics separator",
   settingsSeparatorDesc: "Specify the look of metrics separator by typing anything",
 
+  settingsExplorerBadgesName: "File explorer badges",
+  settingsExplorerBadgesDesc:
+    "Show words, pages or characters next to every note and folder, depending on the metrics of the active preset. Folders show the sum of their notes",
+
+  // Writing goals
+  settingsGoalsHeading: "Writing goals",
+  settingsDailyGoalName: "Daily goal",
+  settingsDailyGoalDesc: "Words to write every day across all notes, shown in the status bar. Leave empty to turn it off",
+  settingsDeadlineKeyName: "Deadline property",
+  settingsDeadlineKeyDesc:
+    "A date (YYYY-MM-DD) in this frontmatter property shows how many words per day are needed to reach the note's word target by then",
+
+  // Automatic preset selection
+  settingsAutoPresetHeading: "Automatic preset selection",
+  settingsAutoPresetDescription:
+    "Presets are chosen for each note automatically: first by the frontmatter property, then by the first matching rule, and finally the active preset is used. Switching presets manually while such a note is open overrides the choice until the note is closed.",
+  settingsFrontmatterKeyName: "Frontmatter property",
+  settingsFrontmatterKeyDesc: "Name or ID of the preset in this property selects it for the note",
+  settingsRulesName: "Preset rules",
+  settingsRulesDesc: "Rules are checked from top to bottom, the first matching rule wins",
+  settingsAddRule: "Add rule",
+  ruleNumber: (n: number) => `Rule ${n}`,
+  rulePatternPlaceholder: "Folder, tag or glob",
+  ruleMoveUp: "Move up",
+  ruleMoveDown: "Move down",
+  ruleDelete: "Delete rule",
+  ruleTypes: {
+    folder: "Folder",
+    tag: "Tag",
+    glob: "Glob",
+  },
+
   // Preset card header
   badgeActive: "Active",
   btnSetActive: "Set as active preset",
   btnDeleteTooltip: "Delete preset",
+  btnDuplicateTooltip: "Duplicate preset",
+  btnExportTooltip: "Copy preset as JSON",
+  presetDragTooltip: "Drag to reorder; clicking the status bar cycles presets in this order",
+  presetCopyName: (name: string) => `${name} (copy)`,
   inputNamePlaceholder: "Enter preset name",
 
   // Words per page row
+  pageModelLabel: "Count pages by",
+  pageModels: {
+    words: {
+      label: "Words",
+      hint: "A page is a number of words",
+    },
+    chars: {
+      label: "Characters",
+      hint: "A page is a number of characters with spaces, e.g. the 1,800-character standard page",
+    },
+    charsNoSpaces: {
+      label: "Characters (no spaces)",
+      hint: "A page is a number of characters without spaces",
+    },
+    layout: {
+      label: "Lines",
+      hint: "A page is a number of lines of fixed width. Every paragraph, list item and heading starts a new line, and headings are followed by a blank line",
+    },
+  },
   wppLabel: "Count",
   wppSuffix: "words as one page",
+  charsPerPageSuffix: "characters as one page",
+  linesPerPageSuffix: "lines as one page",
+  charsPerLineLabel: "Line",
+  charsPerLineSuffix: "characters per line",
+  readingWpmLabel: "Read",
+  speakingWpmLabel: "Speak",
+  wpmSuffix: "words per minute",
+
+  // Word segmentation row
+  segmentationLabel: "Split words by",
+  segmentationModes: {
+    whitespace: {
+      label: "Spaces",
+      hint: "Words are separated by spaces. Best for languages like English or Russian",
+    },
+    unicode: {
+      label: "Unicode word boundaries",
+      hint: "Words are found by language rules, e.g. in Chinese, Japanese or Thai text without spaces",
+    },
+    cjk: {
+      label: "CJK characters as words",
+      hint: "Every Chinese or Japanese character is a word, other text is split by spaces, like in MS Word",
+    },
+  },
+
+  // Character counting rows
+  charCountingLabel: "Count characters as",
+  charCountingModes: {
+    utf16: {
+      label: "UTF-16 code units",
+      hint: "Emoji and some rare characters count as 2, like JavaScript and Telegram do",
+    },
+    codepoints: {
+      label: "Unicode code points",
+      hint: "Every Unicode code point is one character, combining marks count separately",
+    },
+    graphemes: {
+      label: "Visible characters",
+      hint: "Every user-perceived character is one, including emoji and letters with accents",
+    },
+  },
+  charProfileLabel: "Count characters like",
+  charProfiles: {
+    none: {
+      label: "Plain text",
+      hint: "Characters are counted according to the settings of this preset",
+    },
+    telegram: {
+      label: "Telegram",
+      hint: "Only labels of links are counted, characters are counted as UTF-16 code units",
+    },
+    x: {
+      label: "X (Twitter)",
+      hint: "Every URL counts as 23 characters, characters are counted as code points",
+    },
+    mastodon: {
+      label: "Mastodon",
+      hint: "Every URL counts as 23 characters, characters are counted as code points",
+    },
+    bluesky: {
+      label: "Bluesky",
+      hint: "Only labels of links are counted, characters are counted as visible characters",
+    },
+  },
 
   // Section headers
   sectionStatusBar: "Status bar metrics",
   sectionStatusBarNote: "Choose, which metrics will appear in the status bar",
+  statusTemplateLabel: "Template",
+  statusTemplatePlaceholder: "{words:n} w · {pages:1} pp[ · {citekeys} refs]",
+  statusTemplateHint: `Leave empty to show the metrics chosen below
+Fields: {words} {chars} {charsNoSpaces} {pages} {sheets} {lines} {paragraphs} {mdLinks} {wikiLinks} {citekeys} {sources} {cjk} {sentences} {sentenceLength} {reading} {speaking} {readability}, or the label of a custom counter
+Formats: {words:n} thousands separators, {pages:1} decimal places, {words:c} compact (4.8k)
+[ … ] is shown only when its fields aren't zero, {icon:pen-line} shows an icon`,
+  sectionTargets: "Targets and limits",
+  sectionTargetsNote:
+    "Set minimum and maximum values to see progress in the status bar. Notes can override them in frontmatter, e.g. word-target: 8000 or word-target: 5000-8000",
   sectionWordCountOptions: "Words and characters: advanced settings",
   sectionWordCountOptionsNote:
     "Specify counting rules of formatting elements when words and characters are counted",
 
+  sectionFrontmatter: "Frontmatter",
+  sectionFrontmatterNote:
+    "Write metrics to frontmatter properties of notes, e.g. to query them with Dataview or Bases. Leave a property empty to skip the metric",
+
+  // Preview of the preset
+  previewTitle: "Preview",
+  previewSourceLabel: "Count",
+  previewSources: {
+    sample: {
+      label: "Sample text",
+      hint: "Edit the sample to try the options on your own text; it is shared by all presets",
+    },
+    note: {
+      label: "Current note",
+      hint: "The note open in the editor",
+    },
+  },
+  previewSample: `# Chapter 1
+
+As [[Smith 2020|Smith]] argues, the [method](https://example.com) works [see @smith2020, p. 4]. %% check this %%
+Results are in [[Appendix#Tables]].
+
+> [!note] Callout text
+> More callout text
+
+| Table | Cells |
+| ----- | ----- |
+| one   | two   |
+
+Footnote reference.[^1]
+
+[^1]: Footnote text.`,
+  previewNoNote: "Open a note to preview it",
+  previewKept: "Counted",
+  previewRemoved: "Left out",
+  previewReplaced: "Counted instead",
+  previewOriginal: (text: string) => `Written as: ${text}`,
+  previewTruncated: "…",
+
+  // Target rows
+  targetMinPlaceholder: "Min",
+  targetMaxPlaceholder: "Max",
+  targetHint: (key: string) => `Frontmatter property "${key}" overrides this target for a note`,
+  targetLabels: {
+    wordsWithSpaces: "Words",
+    charsWithSpaces: "Characters (with spaces)",
+    charsWithoutSpaces: "Characters (without spaces)",
+    pages: "Pages",
+    citekeys: "Citekeys",
+  },
+
+  // Custom counters
+  sectionCustomCounters: "Custom counters",
+  sectionCustomCountersNote:
+    "Count matches of your own regular expressions, e.g. \\bTODO\\b or /figure \\d+/i, or of built-in matchers. Turn them on in the status bar metrics above",
+  customCounterAdd: "Add counter",
+  customCounterName: (n: number) => `Counter ${n}`,
+  customCounterLabelPlaceholder: "Label",
+  customCounterPatternPlaceholder: "Regular expression",
+  customCounterInvalid: (message: string) => `Invalid regular expression: ${message}`,
+  customCounterToggleHint: "Custom counter",
+  customCounterDelete: "Delete counter",
+  customCounterUnique: {
+    label: "Unique",
+    hint: "Count distinct matches only (of the first group, if the expression has one)",
+  },
+  counterMatchers: {
+    regex: { label: "Regular expression", hint: "Matches of your own regular expression" },
+    footnotes: { label: "Footnotes", hint: "Footnote references [^1]" },
+    tasks: { label: "Open tasks", hint: "Unchecked tasks - [ ]" },
+    tags: { label: "Tags", hint: "#tags in the text" },
+    todos: { label: "TODO markers", hint: "TODO and FIXME" },
+    dialogue: { label: "Dialogue lines", hint: "Lines starting with a dash or an opening quote" },
+  },
+  counterSources: {
+    text: {
+      label: "Text",
+      hint: "Matched against the text words are counted in, with links, citekeys etc. handled by the preset",
+    },
+    raw: { label: "Markdown", hint: "Matched against the Markdown of the note as is" },
+  },
+
+  // Frontmatter write-back
+  writeFrontmatter: {
+    label: "Write metrics to frontmatter",
+    hint: "Metrics are written when a note is saved or closed. Only notes matching the folder rules below are modified",
+  },
+  frontmatterPropertyPlaceholder: "Property",
+  frontmatterGlobs: {
+    frontmatterInclude: "Only in",
+    frontmatterExclude: "Never in",
+  },
+  frontmatterExcludePlaceholder: "Templates/**, Archive/**",
+  frontmatterGlobsHint: "Comma-separated globs of note paths, e.g. Manuscripts/**",
+  frontmatterNothingToWrite: "No notes in this folder have metrics written to frontmatter",
+  frontmatterWriting: (n: number) => `Writing metrics of ${n} notes…`,
+  frontmatterWritten: (written: number, total: number) => `Metrics written to ${written} of ${total} notes (the rest were up to date)`,
+
+  // Excluded sections row
+  excludedHeadingsLabel: "Ignored sections",
+  excludedHeadingsPlaceholder: "References, Bibliography, Appendix",
+  excludedHeadingsHint: "Comma-separated headings, used when \"Ignore sections by heading\" is on",
+
   // ── Delete confirmation modal ──────────────────────────────────────────────
   deleteConfirmTitle: "Delete preset",
   deleteConfirmMessage: (name: string) => `Are you sure you want to delete "${name}" preset? This action is irreversible.`,
   deleteConfirmYes: "Yes, delete",
   deleteConfirmNo: "Cancel",
 
+  // ── Import presets modal ───────────────────────────────────────────────────
+  importTitle: "Import presets",
+  importDescription: "Paste presets copied from Advanced Word Count, or load a saved file.",
+  importPlaceholder: '{ "presets": [ … ] }',
+  importLoadFile: "Load file…",
+  importMerge: "Add to presets",
+  importMergeHint: "Presets are added next to the current ones; a name already in use gets \"(copy)\"",
+  importUpdate: "Update by name",
+  importUpdateHint: "Overwrites the options of presets with the same name, keeping their rules and commands; the rest are added",
+  importReplace: "Replace all presets",
+  importReplaceHint: "Removes all current presets; rules for presets not in the import are removed too",
+  importInvalidJson: "This is not valid JSON",
+  importEmpty: "There are no presets to import",
+  importInvalidPreset: (n: number) => `Preset ${n} has no name`,
+  importDone: (n: number) => (n === 1 ? "Imported 1 preset" : `Imported ${n} presets`),
+
+  // ── Section outline view ───────────────────────────────────────────────────
+  sectionsViewTitle: "Section word count",
+  sectionsEmpty: "Open a note to see the word count of its sections",
+  sectionsNoHeadings: "This note has no headings",
+  sectionsPreamble: "Before the first heading",
+  sectionsTotalTooltip: "Including subsections",
+
+  // ── Statistics view ────────────────────────────────────────────────────────
+  statsViewTitle: "Writing statistics",
+  statsToday: "Today",
+  statsTodayGoal: (words: string, goal: string) => `${words} / ${goal}`,
+  statsCurrentStreak: "Current streak",
+  statsLongestStreak: "Longest streak",
+  statsDays: (n: number) => (n === 1 ? "1 day" : `${n} days`),
+  statsHeatmap: "Words written per day",
+  statsNoteHistory: (note: string, days: number) => `${note}: last ${days} days`,
+  statsDayTooltip: (day: string, words: string) => `${day}: ${words} words`,
+  statsDeadline: (date: string) => `Deadline: ${date}`,
+  statsDeadlineRemaining: (target: string) => `Words left of ${target}`,
+  statsDeadlineDaysLeft: "Days left",
+  statsDeadlinePerDay: "Words per day",
+
+  // ── Citations ──────────────────────────────────────────────────────────────
+  citationsTitle: (note: string) => `Citations: ${note}`,
+  citationsNoNote: "Open a note to list its citations",
+  citationsEmpty: "This note has no citations",
+  citationsSummary: (total: number, unique: number) => `${total} citations of ${unique} sources`,
+  citationsLine: (line: number) => `line ${line}`,
+
+  // ── Folder report ──────────────────────────────────────────────────────────
+  folderSuggestPlaceholder: "Choose a folder to count",
+  reportTitle: (folder: string) => `Word count: ${folder}`,
+  reportPreset: "Preset",
+  reportInclude: "Include",
+  reportExclude: "Exclude",
+  reportGlobDesc: "Comma-separated globs, relative to the folder, e.g. Chapters/**, *.md",
+  reportCounting: (n: number) => `Counting ${n} notes…`,
+  reportSummary: (n: number, preset: string) => `${n} notes counted with the ${preset} preset`,
+  reportFile: "File",
+  reportTotal: "Total",
+  reportCopyCsv: "Copy as CSV",
+  reportCopyMarkdown: "Copy as Markdown table",
+  reportCopied: "Copied to clipboard",
+  reportCompare: "Compare presets",
+
+  // Metric names in tables and reports
+  metricLabels: {
+    wordsWithSpaces: "Words",
+    charsWithSpaces: "Characters",
+    charsWithoutSpaces: "Characters (no spaces)",
+    pages: "Pages",
+    authorSheets: "Author's sheets",
+    lines: "Lines",
+    paragraphs: "Paragraphs",
+    markdownLinks: "Markdown links",
+    wikiLinks: "Wikilinks",
+    citekeys: "Citekeys",
+    uniqueCitekeys: "Unique sources",
+    cjkChars: "CJK characters",
+    sentences: "Sentences",
+    avgSentenceLength: "Words per sentence",
+    readingTime: "Reading time (min)",
+    speakingTime: "Speaking time (min)",
+    readability: "Readability",
+  },
+
+  // ── Preset comparison ──────────────────────────────────────────────────────
+  compareTitle: (name: string) => `Presets compared: ${name}`,
+  compareSelection: (name: string) => `${name} (selection)`,
+  compareNoNote: "Open a note to compare presets",
+  compareCounting: (n: number) => `Counting with ${n} presets…`,
+  compareSummary: "Values over a target and presets with them are highlighted",
+  compareMetric: "Metric",
+  compareSaveNote: "Save as note",
+  compareInsert: "Insert at cursor",
+  compareNoteName: (name: string) => `Preset comparison - ${name}`,
+  compareSaved: (path: string) => `Saved to ${path}`,
+
+  // ── Command-line tool ──────────────────────────────────────────────────────
+  cliUsage: `Usage: awc [options] [file.md …]
+
+Counts Markdown files, or standard input if no files are given or a file is "-".
+
+Options:
+  --settings <data.json>   presets of a vault, .obsidian/plugins/advanced-word-count/data.json
+  --presets <file.json>    presets exported from the settings
+  --preset <name|id>       preset to count with; the active one of --settings by default
+  --vault <folder>         folder embedded notes are looked up in; found from --settings by default
+  --format text|json|csv   output format (text)
+  --max-words <n>          exit with code 1 if a file or the total has more words
+  --max-chars <n>          … more characters
+  --max-pages <n>          … more pages
+  --max-citekeys <n>       … more citekeys
+  --help                   show this help`,
+  cliStdin: "(stdin)",
+  cliUnknownOption: (option: string) => `Unknown option ${option}`,
+  cliMissingValue: (option: string) => `${option} needs a value`,
+  cliInvalidNumber: (option: string, value: string) => `${option} must be a positive number, not "${value}"`,
+  cliInvalidFormat: (format: string) => `Unknown format "${format}", use text, json or csv`,
+  cliUnreadable: (file: string, error: string) => `Cannot read ${file}: ${error}`,
+  cliNoPreset: (name: string) => `There is no preset named ${name}`,
+  cliPreset: (name: string) => `Preset: ${name}`,
+  cliOverLimit: (file: string, metric: string, value: number, max: number) => `${file}: ${metric} ${value} is over the limit of ${max}`,
+
   // ── Status bar metric toggles ──────────────────────────────────────────────
   toggles: {
     showWordsWithSpaces: {
@@ -71,7 +474,11 @@ const en = {
     },
     showPages: {
       label: "Pages",
-      hint: "Counts pages, based on the number of words per page, specified above",
+      hint: "Counts pages with the page model specified above",
+    },
+    showAuthorSheets: {
+      label: "Author's sheets",
+      hint: "Counts author's sheets of 40,000 characters with spaces, the unit Russian publishers count manuscripts in",
     },
     showLines: {
       label: "Lines",
@@ -91,7 +498,35 @@ const en = {
     },
     showCitekeys: {
       label: "Citekeys",
-      hint: "Counts [@citekey] references",
+      hint: "Counts citations: [@doe2020; @smith2019, p. 4] is two, @doe2020 in the text is one",
+    },
+    showUniqueCitekeys: {
+      label: "Unique sources",
+      hint: "Counts different cited keys, no matter how often they are cited",
+    },
+    showCjkChars: {
+      label: "CJK characters",
+      hint: "Counts Chinese characters and Japanese kana",
+    },
+    showSentences: {
+      label: "Sentences",
+      hint: "Counts sentences; headings and list items without a full stop are sentences too",
+    },
+    showAvgSentenceLength: {
+      label: "Words per sentence",
+      hint: "Average sentence length in words",
+    },
+    showReadingTime: {
+      label: "Reading time",
+      hint: "Words divided by the reading speed, specified above",
+    },
+    showSpeakingTime: {
+      label: "Speaking time",
+      hint: "Words divided by the speaking speed, specified above",
+    },
+    showReadability: {
+      label: "Readability",
+      hint: "Flesch reading ease for English or Russian text: from 100 (very easy) to 0 (very difficult)",
     },
   },
 
@@ -114,14 +549,54 @@ On: only label will be counted`,
     },
     countCitekeysAsWords: {
       label: "Ignore citekeys",
-      hint: `Off: citekeys text will be counted
-On: citekeys will be ignored`,
+      hint: `Off: citations text will be counted, including prefixes and locators like "see" and "p. 4"
+On: citations will be ignored`,
     },
     ignoreComments: {
       label: "Ignore comments",
       hint: `Off: comments %% … %% and <!-- … --> text will be counted
 On: comments will be ignored`,
     },
+    countEmbeds: {
+      label: "Count embedded notes",
+      hint: `Off: ![[note]] → the name of the note will be counted
+On: the embedded note, section or block will be counted`,
+    },
+    countCanvasFiles: {
+      label: "Count notes in canvases",
+      hint: `Off: only text cards of a canvas will be counted
+On: notes added to a canvas as cards will be counted too`,
+    },
+    excludeMarkedRegions: {
+      label: "Ignore marked regions",
+      hint: `Off: text between %% wc:off %% and %% wc:on %% will be counted
+On: it will be ignored`,
+    },
+    excludeSections: {
+      label: "Ignore sections by heading",
+      hint: `Off: all sections will be counted
+On: sections with headings listed below (e.g. References) and their subsections will be ignored`,
+    },
+    ignoreCallouts: {
+      label: "Ignore callouts",
+      hint: `Off: callouts > [!note] text will be counted
+On: callouts will be ignored`,
+    },
+    ignoreTables: {
+      label: "Ignore tables",
+      hint: `Off: tables text will be counted
+On: tables will be ignored`,
+    },
+    ignoreFootnotes: {
+      label: "Ignore footnotes",
+      hint: `Off: footnote definitions [^1]: … text will be counted
+On: footnote definitions will be ignored`,
+    },
+    ignoreBlockQuotes: {
+      label: "Ignore block quotes",
+      hint: `Off: block quotes > … text will be counted
+On: block quotes will be ignored`,
+    },
   },
 } as const;
 
@@ -1,89 +1,288 @@
-import { App, Modal, Plugin, PluginSettingTab, Setting, MarkdownView, ButtonComponent, setIcon, setTooltip } from "obsidian";
+import {
+  App, Editor, Modal, Plugin, PluginSettingTab, Setting, MarkdownView, ButtonComponent, FileView, TFile, TFolder,
+  FuzzySuggestModal, ItemView, Notice, TextFileView, Vault, WorkspaceLeaf, debounce, getAllTags, moment, normalizePath, parseFrontMatterEntry, resolveSubpath, setIcon, setTooltip,
+} from "obsidian";
+import type { AllCanvasNodeData, CanvasData } from "obsidian/canvas";
 import { t, refreshLocale } from "./locales";
+import { compactNumber, formatDuration, targetState, templateSegments } from "./template";
+import type { StatusSegment } from "./template";
+import { tokenize } from "./tokenizer";
+import type { MarkdownDocument } from "./tokenizer";
+import {
+  BlockCache, CHAR_COUNTINGS, CHAR_PROFILES, COUNTER_MATCHERS, CountingEngine, EMBED_DEPTH_LIMIT, EmbedTexts, METRIC_KEYS,
+  PAGE_MODELS, TARGET_METRICS, WORD_SEGMENTATIONS, csvField, defaultPreset, parseCounterPattern, parsePresets, parseTarget, presetKey, randomId,
+} from "./engine";
+import type {
+  CharProfile, CounterSource, CustomCounter, CustomMatcher, EmbedContext, EmbedSource, MetricKey, MetricTarget, Metrics, Preset, TargetMetric, Targets,
+} from "./engine";
 
 // ── Types ─────────────────────────────────────────────────────────────────────
 
-interface Preset {
-  id: string;
-  name: string;
-
-  // Page
-  wordsPerPage: number;
+/** The count shown in the status bar, for the popover. */
+interface StatusCount {
+  resolved: ResolvedPreset;
+  recount: (preset: Preset) => Metrics; // the same text with another preset
+  document: Metrics;
+  selection?: Metrics;        // summed over all selections
+  embeds: Map<string, number>; // words from each embedded note
+}
 
-  // Metric visibility
-  showWordsWithSpaces: boolean;    // space-separated word count
-  showCharsWithSpaces: boolean;    // total characters including spaces and linebreaks
-  showCharsWithoutSpaces: boolean; // total characters excluding all whitespace
-  showPages: boolean;
-  showLines: boolean;
-  showParagraphs: boolean;
-  showMarkdownLinks: boolean;
-  showWikiLinks: boolean;
-  showCitekeys: boolean;
+type PresetRuleType = "folder" | "tag" | "glob";
 
-  // Word count inclusions / exclusions (shared by both word and char metrics)
-  countMdLinksAsWords: boolean;
-  countWikiLinkDisplayText: boolean;
-  ignoreWikiLinks: boolean;
-  countCitekeysAsWords: boolean;
-  ignoreComments: boolean;
+interface PresetRule {
+  type: PresetRuleType;
+  pattern: string;
+  presetId: string;
 }
 
 interface WordCountSettings {
   activePresetId: string;
   presets: Preset[];
   separator: string;
+
+  // Automatic preset selection
+  presetFrontmatterKey: string;
+  presetRules: PresetRule[];
+
+  // File explorer
+  showExplorerBadges: boolean;
+
+  // Writing goals
+  dailyGoal: number;          // words per day, 0 turns the goal off
+  deadlineFrontmatterKey: string;
 }
 
-interface Metrics {
-  wordsWithSpaces: number;
-  charsWithSpaces: number;
-  charsWithoutSpaces: number;
-  pages: string;
-  lines: number;
-  paragraphs: number;
-  markdownLinks: number;
-  wikiLinks: number;
-  citekeys: number;
+/** data.json: the settings, and the index and history older versions kept there too. */
+interface PluginData extends WordCountSettings {
+  index?: SerializedIndex;
+  history?: WritingHistory;
 }
 
-// ── Defaults ──────────────────────────────────────────────────────────────────
+/** Words written per day ("YYYY-MM-DD") and note path; deletions make them negative. */
+type WritingHistory = Record<string, Record<string, number>>;
 
-function defaultPreset(overrides: Partial<Preset> = {}): Preset {
-  return {
-    id: crypto.randomUUID(),
-    name: t.defaultPresetName,
-    wordsPerPage: 250,
-    showWordsWithSpaces: true,
-    showCharsWithSpaces: false,
-    showCharsWithoutSpaces: false,
-    showPages: true,
-    showLines: false,
-    showParagraphs: false,
-    showMarkdownLinks: false,
-    showWikiLinks: false,
-    showCitekeys: false,
-    countMdLinksAsWords: false,
-    countWikiLinkDisplayText: false,
-    ignoreWikiLinks: false,
-    countCitekeysAsWords: false,
-    ignoreComments: true,
-    ...overrides,
-  };
+interface Streaks {
+  current: number;
+  longest: number;
+}
+
+/** Words per day needed to reach a note's word target by its deadline. */
+interface DeadlinePlan {
+  date: string;
+  target: number;
+  remaining: number; // as of the start of today
+  daysLeft: number;  // including today
+  perDay: number;
+  today: number;     // words written in the note today
+}
+
+/** Why a preset was chosen for the current note, in order of precedence. */
+type PresetSource = "override" | "frontmatter" | "rule" | "default";
+
+/** add: new presets next to the current ones, update: presets with the same name are updated, replace: all presets are replaced. */
+type ImportMode = "add" | "update" | "replace";
+
+interface ResolvedPreset {
+  preset: Preset;
+  source: PresetSource;
+  rule?: PresetRule;
+}
+
+interface IndexEntry {
+  mtime: number;
+  size: number;
+  presetKey: string; // counting options the metrics were computed with, see presetKey()
+  metrics: Metrics;
+}
+
+type SerializedIndex = Record<string, IndexEntry>;
+
+/** Metrics a file explorer badge can show. */
+type BadgeMetric = "wordsWithSpaces" | "pages" | "charsWithSpaces" | "charsWithoutSpaces";
+
+/** What the preview in a preset card counts. */
+type PreviewSource = "sample" | "note";
+
+// Private API of the core file explorer
+interface FileExplorerView {
+  fileItems?: Record<string, { selfEl: HTMLElement }>;
+}
+
+// Private API of the core canvas view
+interface CanvasView {
+  canvas?: { selection: Set<{ id: string }> };
 }
 
+interface Section {
+  heading: string;  // empty for the text before the first heading
+  level: number;    // 0 for the text before the first heading
+  line: number;
+  own: Metrics;     // up to the next heading
+  total: Metrics;   // including subsections
+  hasSubsections: boolean;
+  budget?: MetricTarget;
+}
+
+interface FileMetrics {
+  file: TFile;
+  metrics: Metrics;
+}
+
+// ── Defaults ──────────────────────────────────────────────────────────────────
+
 const DEFAULT_SETTINGS: WordCountSettings = {
   activePresetId: "",
   presets: [],
   separator: "  |  ",
+  presetFrontmatterKey: "wordcount-preset",
+  presetRules: [],
+  showExplorerBadges: false,
+  dailyGoal: 0,
+  deadlineFrontmatterKey: "wordcount-deadline",
+};
+
+// Frontmatter properties that override a preset's target for a single note
+const TARGET_FRONTMATTER_KEYS: Record<TargetMetric, string> = {
+  wordsWithSpaces: "word-target",
+  charsWithSpaces: "char-target",
+  charsWithoutSpaces: "char-nospace-target",
+  pages: "page-target",
+  citekeys: "citekey-target",
 };
 
+const VIEW_TYPE_SECTIONS = "advanced-word-count-sections";
+
+// Frontmatter map of section budgets in words, e.g. { Introduction: 800 }
+const SECTION_BUDGETS_KEY = "wordcount-sections";
+// Heading suffix with a section budget: "## Introduction %% budget: 800 %%"
+const SECTION_BUDGET_COMMENT = /^\s*budget:\s*(.+?)\s*$/i;
+
+const VIEW_TYPE_STATISTICS = "advanced-word-count-statistics";
+
+const DAY_FORMAT = "YYYY-MM-DD";
+// A single edit that changes more words is a paste or an undo, not writing
+const BULK_CHANGE_WORDS = 100;
+const HEATMAP_WEEKS = 26;
+
+// Files next to data.json with the word count index and the writing history
+const INDEX_FILE = "index.jsonl";
+const HISTORY_FILE = "history.json";
+// The index file is rewritten once it has more than twice as many lines as entries, plus this many
+const INDEX_FILE_SLACK = 100;
+const HISTORY_DAYS = 30;
+
+// Workspace event fired with a CountChangedEvent when the status bar metrics change
+const COUNT_CHANGED_EVENT = "advanced-word-count:count-changed";
+
+// Edits and selection changes are counted at most this often (ms), once the app is idle
+const COUNT_DELAY = 150;
+const COUNT_IDLE_TIMEOUT = 500;
+
+// The preview in a preset card counts all of the text but shows only this many characters of it
+const PREVIEW_SOURCES: PreviewSource[] = ["sample", "note"];
+const PREVIEW_CHARS = 5000;
+
+// Saves of a note in quicker succession postpone writing its metrics to frontmatter
+const FRONTMATTER_WRITE_DELAY = 5000;
+
+// Marks JSON exported by the plugin; imports also accept a bare list of presets
+const PRESET_EXPORT_FORMAT = "advanced-word-count-presets";
+const PRESET_EXPORT_FILE = "word-count-presets.json";
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+function presetInfo(preset: Preset): PresetInfo {
+  return { id: preset.id, name: preset.name };
+}
+
+// requestIdleCallback is missing from Safari, so from Obsidian on iOS
+const idleCallbacks = typeof window.requestIdleCallback === "function";
+
+/** Runs the callback when the app is idle, or after `timeout` ms at the latest. */
+function requestIdle(callback: () => void, timeout: number): number {
+  return idleCallbacks ? window.requestIdleCallback(callback, { timeout }) : window.setTimeout(callback);
+}
+
+function cancelIdle(id: number) {
+  if (idleCallbacks) window.cancelIdleCallback(id);
+  else window.clearTimeout(id);
+}
+
+/** Comma-separated globs; an empty list matches nothing. */
+function matchesAnyGlob(path: string, globs: string): boolean {
+  return globs
+    .split(",")
+    .map((g) => g.trim())
+    .filter(Boolean)
+    .some((g) => globToRegExp(g).test(path));
+}
+
+/** Converts a vault path glob (`*`, `**`, `?`) into an anchored RegExp. */
+function globToRegExp(glob: string): RegExp {
+  let re = "";
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "*" && glob[i + 1] === "*") {
+      // "**/" matches zero or more whole folders
+      if (glob[i + 2] === "/") { re += "(?:.*/)?"; i += 2; }
+      else { re += ".*"; i++; }
+    } else if (c === "*") re += "[^/]*";
+    else if (c === "?") re += "[^/]";
+    else re += c.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+  }
+  return new RegExp(`^${re}$`, "i");
+}
+
+/** A Markdown table; the first row is the header, the first column is aligned left and the rest right. */
+function markdownTable(rows: string[][]): string {
+  const [header, ...body] = rows.map((row) => row.map((c) => c.replace(/\|/g, "\\|")));
+  const line = (cells: string[]) => `| ${cells.join(" | ")} |`;
+  return [line(header), line(header.map((_, i) => (i === 0 ? ":---" : "---:"))), ...body.map(line)].join("\n");
+}
+
+function normalizeFolder(folder: string): string {
+  return folder.trim().replace(/^\/+|\/+$/g, "");
+}
+
+function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#/, "").toLowerCase();
+}
+
 // ── Plugin ────────────────────────────────────────────────────────────────────
 
 export default class WordCountPlugin extends Plugin {
   settings: WordCountSettings;
   statusBarItem: HTMLElement;
+  index: WordCountIndex = new WordCountIndex(this);
+  tracker: WritingTracker = new WritingTracker(this);
+  api: WordCountApi = new PublicApi(this);
+  engine: CountingEngine = new CountingEngine();
   private registeredCommandIds: Set<string> = new Set();
+  // Contents of embedded notes, loaded on demand and dropped when the note changes
+  private embedTexts: EmbedTexts = new EmbedTexts(
+    (path) => {
+      const file = this.app.vault.getAbstractFileByPath(path);
+      return file instanceof TFile ? this.app.vault.cachedRead(file) : Promise.resolve("");
+    },
+    () => this.updateCount(),
+  );
+  // Notes whose metrics are waiting to be written to frontmatter
+  private pendingFrontmatter: Set<string> = new Set();
+  private lastActivePath: string | null = null;
+  // What the last count-changed event was fired for, to skip repeats
+  private lastCountKey = "";
+  // What the status bar shows, kept for the popover
+  lastCount?: StatusCount;
+  private popover: StatusPopover;
+  // Blocks of the note in the status bar, so that an edit recounts only its own
+  private blockCache: BlockCache = new BlockCache();
+  // The same for every other preset, while the status bar popover compares them
+  private presetCaches: Map<string, BlockCache> = new Map();
+  // Whether a scheduled count follows typing
+  private pendingTyped = false;
+  private idleCount?: number;
+  // Manual preset choices for notes that resolve automatically; kept only while the note is open
+  private noteOverrides: Map<string, string> = new Map();
 
   async onload() {
     await this.loadSettings();
@@ -103,36 +302,273 @@ export default class WordCountPlugin extends Plugin {
     this.statusBarItem = this.addStatusBarItem();
     this.statusBarItem.addClass("wcp-status-bar");
     this.statusBarItem.addEventListener("click", () => this.cyclePreset());
+    this.popover = new StatusPopover(this, this.statusBarItem);
 
     this.registerAllPresetCommands();
+    this.addCommand({
+      id: "count-folder",
+      name: t.commandCountFolder,
+      callback: () => new FolderSuggestModal(this.app, (folder) => this.openFolderReport(folder)).open(),
+    });
+
+    this.registerView(VIEW_TYPE_SECTIONS, (leaf) => new SectionOutlineView(leaf, this));
+    this.addCommand({
+      id: "open-section-outline",
+      name: t.commandOpenSections,
+      callback: () => this.openSectionOutline(),
+    });
+
+    this.registerView(VIEW_TYPE_STATISTICS, (leaf) => new StatisticsView(leaf, this));
+    this.addCommand({
+      id: "open-statistics",
+      name: t.commandOpenStatistics,
+      callback: () => this.revealView(VIEW_TYPE_STATISTICS),
+    });
+
+    this.addCommand({
+      id: "list-citations",
+      name: t.commandListCitations,
+      callback: () => this.openCitations(),
+    });
+    this.addCommand({
+      id: "write-frontmatter-folder",
+      name: t.commandWriteFrontmatter,
+      callback: () => new FolderSuggestModal(this.app, (folder) => this.backfillFrontmatter(folder)).open(),
+    });
+    this.addCommand({
+      id: "compare-presets",
+      name: t.commandComparePresets,
+      callback: () => this.openPresetComparison(),
+    });
+    this.addCommand({
+      id: "compare-presets-folder",
+      name: t.commandComparePresetsFolder,
+      callback: () => new FolderSuggestModal(this.app, (folder) => this.openFolderComparison(folder)).open(),
+    });
+
+    this.registerEvent(this.app.workspace.on("file-menu", (menu, file) => {
+      if (!(file instanceof TFolder)) return;
+      menu.addItem((item) =>
+        item.setTitle(t.menuCountFolder).setIcon("sigma").onClick(() => this.openFolderReport(file))
+      );
+    }));
 
     this.registerEvent(this.app.workspace.on("active-leaf-change", () => this.updateCount()));
-    this.registerEvent(this.app.workspace.on("editor-change", () => this.updateCount()));
-    this.registerEvent(this.app.workspace.on("editor-selection-change", () => this.updateCount()));
+    this.registerEvent(this.app.workspace.on("editor-change", () => this.requestCount(true)));
+    this.registerEvent(this.app.workspace.on("editor-selection-change", () => this.requestCount()));
+    this.registerEvent(this.app.workspace.on("layout-change", () => this.pruneNoteOverrides()));
+    this.registerEvent(this.app.metadataCache.on("changed", (file) => {
+      if (file === this.app.workspace.getActiveFile()) this.updateCount();
+    }));
+    // Canvases have no metadata; they are saved shortly after every change
+    this.registerEvent(this.app.vault.on("modify", (file) => {
+      if (file instanceof TFile && file.extension === "canvas" && file === this.app.workspace.getActiveFile()) this.requestCount();
+    }));
+    // Selections in reading view and canvases don't fire editor events
+    this.registerDomEvent(document, "selectionchange", () => {
+      if (this.countsRenderedSelection()) this.requestCount();
+    });
+    this.registerDomEvent(document, "pointerup", () => {
+      if (this.activeCanvas()) this.requestCount();
+    });
+    this.registerDomEvent(document, "keyup", () => {
+      if (this.activeCanvas()) this.requestCount();
+    });
+    this.registerEvent(this.app.vault.on("rename", (file, oldPath) => {
+      this.tracker.rename(oldPath, file.path);
+      const overrideId = this.noteOverrides.get(oldPath);
+      if (overrideId === undefined) return;
+      this.noteOverrides.delete(oldPath);
+      this.noteOverrides.set(file.path, overrideId);
+    }));
+
+    this.registerIndexEvents();
+    this.registerFrontmatterEvents();
 
     this.addSettingTab(new WordCountSettingTab(this.app, this));
     this.updateCount();
   }
 
+  onunload() {
+    this.clearBadges();
+    this.popover.hide();
+    this.scheduleCount.cancel();
+    if (this.idleCount !== undefined) cancelIdle(this.idleCount);
+  }
+
   // ── Preset helpers ────────────────────────────────────────────────────────
 
   getActivePreset(): Preset | undefined {
     return this.settings.presets.find((p) => p.id === this.settings.activePresetId);
   }
 
-  async activatePreset(id: string) {
+  /** Sets the vault-wide preset used when no note-specific rule applies. */
+  async setDefaultPreset(id: string) {
     this.settings.activePresetId = id;
     await this.saveSettings();
     this.updateCount();
   }
 
+  /**
+   * Manual switch from the status bar or command palette. If the current note
+   * chose its preset automatically, the choice sticks to that note until it is
+   * closed; otherwise the default preset changes.
+   */
+  async activatePreset(id: string) {
+    const file = this.app.workspace.getActiveFile();
+    const resolved = this.resolvePreset(file);
+    if (file && resolved && resolved.source !== "default") {
+      this.noteOverrides.set(file.path, id);
+      this.updateCount();
+    } else {
+      await this.setDefaultPreset(id);
+    }
+  }
+
+  /** A copy of the preset with a fresh ID, placed right after it. */
+  duplicatePreset(preset: Preset): Preset {
+    const copy = defaultPreset({ ...JSON.parse(JSON.stringify(preset)), id: randomId(), name: t.presetCopyName(preset.name) });
+    const { presets } = this.settings;
+    presets.splice(presets.indexOf(preset) + 1, 0, copy);
+    return copy;
+  }
+
+  /** JSON to share presets with; IDs are left out, imports get fresh ones. */
+  exportPresets(presets: Preset[]): string {
+    const shared = presets.map((preset) => {
+      const copy: Partial<Preset> = JSON.parse(JSON.stringify(preset));
+      delete copy.id;
+      return copy;
+    });
+    return JSON.stringify({ format: PRESET_EXPORT_FORMAT, presets: shared }, null, 2);
+  }
+
+  /**
+   * Adds imported presets, or replaces all presets with them. A preset named like
+   * an existing one takes its place and ID, so rules and commands keep working;
+   * each existing preset is taken over once, later presets of that name are copies.
+   */
+  importPresets(imported: Partial<Preset>[], mode: ImportMode) {
+    const { settings } = this;
+    const existing = settings.presets;
+    const named = (name: string | undefined) => (p: Preset) => p.name.toLowerCase() === (name ?? "").toLowerCase();
+    const taken = new Set<Preset>();
+    // Names already in use get "(copy)", so that the imported preset can be told apart
+    const uniqueName = (name: string, presets: Preset[]) => {
+      while (presets.some(named(name))) name = t.presetCopyName(name);
+      return name;
+    };
+
+    if (mode === "replace") {
+      const presets: Preset[] = [];
+      for (const options of imported) {
+        const match = existing.find((p) => named(options.name)(p) && !taken.has(p));
+        if (match) taken.add(match);
+        presets.push(defaultPreset({ ...options, id: match?.id ?? randomId(), name: uniqueName(options.name ?? "", presets) }));
+      }
+      settings.presets = presets;
+      const ids = new Set(presets.map((p) => p.id));
+      settings.presetRules = settings.presetRules.filter((rule) => ids.has(rule.presetId));
+      if (!ids.has(settings.activePresetId)) settings.activePresetId = presets[0].id;
+      this.noteOverrides.clear();
+      return;
+    }
+    for (const options of imported) {
+      const index = existing.findIndex((p) => named(options.name)(p) && !taken.has(p));
+      if (mode === "update" && index >= 0) {
+        existing[index] = defaultPreset({ ...options, id: existing[index].id });
+        taken.add(existing[index]);
+        continue;
+      }
+      existing.push(defaultPreset({ ...options, id: randomId(), name: uniqueName(options.name ?? "", existing) }));
+    }
+  }
+
   cyclePreset() {
     const { presets } = this.settings;
     if (presets.length <= 1) return;
-    const idx = presets.findIndex((p) => p.id === this.settings.activePresetId);
+    const current = this.resolvePreset(this.app.workspace.getActiveFile());
+    const idx = presets.findIndex((p) => p.id === current?.preset.id);
     this.activatePreset(presets[(idx + 1) % presets.length].id);
   }
 
+  /** Looks a preset up by name (case-insensitive) or ID. */
+  findPreset(ref: unknown): Preset | undefined {
+    if (typeof ref !== "string" || !ref.trim()) return undefined;
+    const needle = ref.trim().toLowerCase();
+    return this.settings.presets.find((p) => p.id === ref || p.name.toLowerCase() === needle);
+  }
+
+  // ── Automatic preset selection ────────────────────────────────────────────
+
+  /** Override → frontmatter → first matching rule → default preset. */
+  resolvePreset(file: TFile | null): ResolvedPreset | undefined {
+    if (file) {
+      const override = this.settings.presets.find((p) => p.id === this.noteOverrides.get(file.path));
+      if (override) return { preset: override, source: "override" };
+
+      const cache = this.app.metadataCache.getFileCache(file);
+      const key = this.settings.presetFrontmatterKey.trim();
+      if (key) {
+        let value = parseFrontMatterEntry(cache?.frontmatter, key);
+        if (Array.isArray(value)) value = value[0];
+        const fromFrontmatter = this.findPreset(value);
+        if (fromFrontmatter) return { preset: fromFrontmatter, source: "frontmatter" };
+      }
+
+      for (const rule of this.settings.presetRules) {
+        if (!this.ruleMatches(rule, file)) continue;
+        const preset = this.settings.presets.find((p) => p.id === rule.presetId);
+        if (preset) return { preset, source: "rule", rule };
+      }
+    }
+
+    const preset = this.getActivePreset();
+    return preset && { preset, source: "default" };
+  }
+
+  ruleMatches(rule: PresetRule, file: TFile): boolean {
+    const pattern = rule.pattern.trim();
+    if (!pattern) return false;
+
+    switch (rule.type) {
+      case "folder": {
+        const folder = normalizeFolder(pattern);
+        return folder === "" || file.path.startsWith(`${folder}/`);
+      }
+      case "tag": {
+        const cache = this.app.metadataCache.getFileCache(file);
+        const tag = normalizeTag(pattern);
+        return (cache ? getAllTags(cache) ?? [] : [])
+          .map(normalizeTag)
+          .some((candidate) => candidate === tag || candidate.startsWith(`${tag}/`));
+      }
+      case "glob":
+        return globToRegExp(pattern).test(file.path);
+    }
+  }
+
+  describePresetSource(resolved: ResolvedPreset): string {
+    switch (resolved.source) {
+      case "override":    return t.presetSourceOverride;
+      case "frontmatter": return t.presetSourceFrontmatter(this.settings.presetFrontmatterKey);
+      case "rule":        return t.presetSourceRule(t.ruleTypes[resolved.rule!.type], resolved.rule!.pattern);
+      case "default":     return t.presetSourceDefault;
+    }
+  }
+
+  /** Forgets manual overrides for notes that are no longer open in any leaf. */
+  pruneNoteOverrides() {
+    if (this.noteOverrides.size === 0) return;
+    const open = new Set<string>();
+    this.app.workspace.iterateAllLeaves((leaf) => {
+      if (leaf.view instanceof FileView && leaf.view.file) open.add(leaf.view.file.path);
+    });
+    for (const path of [...this.noteOverrides.keys()]) {
+      if (!open.has(path)) this.noteOverrides.delete(path);
+    }
+  }
+
   // ── Commands ──────────────────────────────────────────────────────────────
 
   registerAllPresetCommands() {
@@ -173,328 +609,1714 @@ export default class WordCountPlugin extends Plugin {
     }
   }
 
-  // ── Text pre-processing ───────────────────────────────────────────────────
-
-  private preprocessBase(raw: string, preset: Preset): string {
-    let s = raw;
+  // ── Embedded notes ────────────────────────────────────────────────────────
 
-    // Frontmatter
-    s = s.replace(/^---[\s\S]*?---\n?/, "");
+  embedContext(path: string): EmbedContext {
+    return { source: this.embedSource, chain: [path], words: new Map() };
+  }
 
-    // Comments (stripped first so their content never leaks into counts)
-    if (preset.ignoreComments) {
-      s = s.replace(/%%[\s\S]*?%%/g, "").replace(/<!--[\s\S]*?-->/g, "");
-    }
+  /** Embedded notes are read from the vault; notes that aren't loaded yet are loaded and recounted. */
+  private embedSource: EmbedSource = {
+    locate: (link, from) => {
+      const file = this.app.metadataCache.getFirstLinkpathDest(link.target, from);
+      return file?.extension === "md" ? file.path : undefined;
+    },
+    read: (path, subpath) => {
+      const file = this.app.vault.getAbstractFileByPath(path);
+      if (!(file instanceof TFile)) return undefined;
+      const raw = this.embedTexts.get(path);
+      return raw === undefined ? undefined : this.embedSlice(file, raw, subpath);
+    },
+  };
 
-    // Code blocks (always excluded)
-    s = s.replace(/```[\s\S]*?```/g, "").replace(/`[^`]*`/g, "");
+  /** The part of an embedded note a subpath (heading or ^block) points to. */
+  private embedSlice(file: TFile, raw: string, subpath: string): string {
+    if (!subpath) return raw;
+    const cache = this.app.metadataCache.getFileCache(file);
+    const result = cache && resolveSubpath(cache, `#${subpath}`);
+    if (!result) return "";
+    return raw.slice(result.start.offset, result.end?.offset ?? raw.length);
+  }
 
-    // Images (always excluded)
-    s = s.replace(/!\[.*?\]\(.*?\)/g, "");
+  /** Drops a changed note from the embed cache; recounts if the active note may embed it. */
+  forgetEmbed(path: string) {
+    if (this.embedTexts.forget(path)) this.updateCount();
+  }
 
-    // Markdown links — keep label text or strip
-    if (preset.countMdLinksAsWords) {
-      s = s.replace(/\[([^\]]*)\]\([^)]*\)/g, "$1");
-      s = s.replace(/\([^)]*\)\[([^\]]*)\]/g, "$1");
-    } else {
-      s = s.replace(/\[([^\]]*)\]\(([^)]*)\)/g, (_, label, url) => `${label} ${url.trim()}`.trim());
-      s = s.replace(/\(([^)]*)\)\[([^\]]*)\]/g, (_, url, label) => `${label} ${url.trim()}`.trim());
-    }
-
-    // Wiki links
-    if (preset.ignoreWikiLinks) {
-      // Strip entirely
-      s = s.replace(/\[\[.*?\]\]/g, "");
-    } else if (preset.countWikiLinkDisplayText) {
-      // [[Page|Alias]] → "Alias", [[Page]] → "Page"
-      s = s.replace(/\[\[([^\]|]*)\|?([^\]]*)\]\]/g, (_, page, alias) =>
-        (alias.trim() || page.trim()).replace(/#.*$/, "").trim()
-      );
-    } else {
-      // Count every word inside: [[Page#Heading|Alias]] → "Page Heading Alias"
-      s = s.replace(/\[\[([^\]]*)\]\]/g, (_, inner) =>
-        inner.replace(/[|#]/g, " ").trim()
-      );
-    }
+  // ── Citations ─────────────────────────────────────────────────────────────
 
-    // Citekeys — strip of keep as word token
-    if (preset.countCitekeysAsWords) {
-      s = s.replace(/\[@[^\]]*\]/g, "");
-    } else {
-      s = s.replace(/\[@([^\]]+)\]/g, "$1");
-    }
+  openCitations() {
+    const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+    const preset = view?.file && this.resolvePreset(view.file)?.preset;
+    if (!view || !preset) { new Notice(t.citationsNoNote); return; }
+    new CitationsModal(this, view, this.engine.collectCitations(view.editor.getValue(), preset)).open();
+  }
 
-    // Strip inline Markdown decoration (headings, bold, italic, strike, quotes, pipes)
-    // List-item markers are intentionally left here for callers to handle.
-    s = s
-      .replace(/#{1,6}\s/g, "")
-      .replace(/(\*\*|__)(.*?)\1/g, "$2")
-      .replace(/(\*|_)(.*?)\1/g, "$2")
-      .replace(/~~(.*?)~~/g, "$1")
-      .replace(/>\s/g, "")
-      .replace(/\|/g, "");
+  // ── Files and folders ─────────────────────────────────────────────────────
 
-    return s;
+  async countFile(file: TFile, preset: Preset): Promise<Metrics> {
+    const raw = await this.app.vault.cachedRead(file);
+    // Every pass loads the next level of embeds, if there are any
+    for (let depth = 0; ; depth++) {
+      const metrics = this.engine.computeMetrics(raw, preset, this.embedContext(file.path));
+      if (!this.embedTexts.loading || depth >= EMBED_DEPTH_LIMIT) return metrics;
+      await this.embedTexts.loaded();
+    }
   }
 
-  preprocessText(raw: string, preset: Preset): string {
-    // Build the base (no list markers yet), then strip them for word counting.
-    let s = this.preprocessBase(raw, preset);
-
-    s = s
-      .replace(/[-*+]\s/g, "")
-      .replace(/\d+\.\s/g, "");
+  /**
+   * Markdown files under `folder`, recursively. `include` and `exclude` are
+   * comma-separated globs matched against paths relative to the folder.
+   */
+  folderFiles(folder: TFolder, include = "**", exclude = ""): TFile[] {
+    const prefix = folder.isRoot() ? "" : `${folder.path}/`;
+    const files: TFile[] = [];
+    Vault.recurseChildren(folder, (f) => {
+      if (!(f instanceof TFile) || f.extension !== "md") return;
+      const rel = f.path.slice(prefix.length);
+      if (matchesAnyGlob(rel, include || "**") && !matchesAnyGlob(rel, exclude)) files.push(f);
+    });
+    return files;
+  }
 
-    return s;
+  openFolderReport(folder: TFolder) {
+    new FolderReportModal(this, folder).open();
   }
 
-  // ── Counters ──────────────────────────────────────────────────────────────
+  // ── Preset comparison ─────────────────────────────────────────────────────
 
-  /** Traditional word count: space-separated tokens after preprocessing. */
-  countWordsWithSpaces(preprocessed: string): number {
-    const trimmed = preprocessed.trim();
-    // split(/\s+/) on a non-empty trimmed string never produces empty tokens
-    return trimmed ? trimmed.split(/\s+/).length : 0;
+  /** Compares every preset on the active note, or on its selection if there is one. */
+  openPresetComparison() {
+    const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+    const file = view?.file;
+    if (!view || !file) { new Notice(t.compareNoNote); return; }
+
+    const raw = view.getViewData();
+    const editing = view.getMode() === "source";
+    const selections = editing ? this.selectedTexts(view.editor) : this.renderedSelection(view.contentEl);
+    const count = (preset: Preset) => selections.length > 0
+      ? this.engine.sumMetrics(selections.map((text) => this.engine.computeMetrics(text, preset, this.embedContext(file.path))), preset)
+      : this.engine.computeMetrics(raw, preset, this.embedContext(file.path));
+
+    new PresetComparisonModal(this, {
+      name: selections.length > 0 ? t.compareSelection(file.basename) : file.basename,
+      count: async (preset) => count(preset),
+      targets: (preset) => this.resolveTargets(preset, file),
+      folder: file.parent ?? this.app.vault.getRoot(),
+      editor: editing ? view.editor : undefined,
+    }).open();
   }
 
-  private substituteListMarkers(base: string, countSpaces: boolean): string {
-    const u = countSpaces ? "\x01\x02"      : "\x01";        // unordered / checkbox
-    const n = countSpaces ? "\x01\x02\x03"  : "\x01\x02";   // numbered
-    return base
-      .replace(/^- \[[ x]\] /gm, u)   // checkbox
-      .replace(/^[*\-+] /gm,     u)   // unordered
-      .replace(/^\d+\. /gm,      n)   // numbered (dot)
-      .replace(/^\d+\) /gm,      n);  // numbered (paren)
+  /** Compares every preset on the notes of a folder, added up. */
+  openFolderComparison(folder: TFolder, include = "**", exclude = "") {
+    const files = this.folderFiles(folder, include, exclude);
+    new PresetComparisonModal(this, {
+      name: folder.isRoot() ? "/" : folder.path,
+      count: async (preset) => {
+        const all: Metrics[] = [];
+        for (const file of files) all.push(await this.countFile(file, preset));
+        return this.engine.sumMetrics(all, preset);
+      },
+      targets: (preset) => preset.targets,
+      folder,
+    }).open();
   }
 
-  /** Character count including spaces and linebreaks, after preprocessing. */
-  countCharsWithSpaces(base: string): number {
-    return this.substituteListMarkers(base, true).length;
-  }
+  // ── Sections ──────────────────────────────────────────────────────────────
 
-  /** Character count excluding all whitespace, after preprocessing. */
-  countCharsWithoutSpaces(base: string): number {
-    return this.substituteListMarkers(base, false).replace(/\s/g, "").length;
+  async openSectionOutline() {
+    await this.revealView(VIEW_TYPE_SECTIONS);
   }
 
-  countLines(text: string): number {
-    return text ? text.split("\n").length : 0;
+  /** Shows one of the plugin's views, opening it in the right sidebar if needed. */
+  async revealView(type: string) {
+    const { workspace } = this.app;
+    let leaf: WorkspaceLeaf | null = workspace.getLeavesOfType(type)[0] ?? null;
+    if (!leaf) {
+      leaf = workspace.getRightLeaf(false);
+      await leaf?.setViewState({ type, active: true });
+    }
+    if (leaf) workspace.revealLeaf(leaf);
   }
 
-  countParagraphs(text: string): number {
-    if (!text) return 0;
-    return text
-      .replace(/^---[\s\S]*?---\n?/, "")
-      .split(/\n{2,}/)
-      .filter((b) => b.trim().length > 0).length;
-  }
+  /** Metrics of every heading's section, in document order. */
+  computeSections(raw: string, preset: Preset, file: TFile | null): Section[] {
+    const doc = tokenize(raw);
+    const { blocks } = doc;
+    const budgets = this.sectionBudgets(file);
+    const context = file ? this.embedContext(file.path) : undefined;
+    const headings = blocks.map((b, i) => i).filter((i) => blocks[i].kind === "heading");
+    const sections: Section[] = [];
+
+    const first = headings[0] ?? blocks.length;
+    const preamble = blocks.slice(0, first).some((b) => b.kind !== "blank" && b.kind !== "frontmatter");
+    if (preamble) {
+      const metrics = this.engine.documentMetrics(this.sliceDocument(doc, 0, first), preset, context);
+      sections.push({ heading: "", level: 0, line: 0, own: metrics, total: metrics, hasSubsections: false });
+    }
 
-  countMarkdownLinks(text: string): number {
-    const standard = (text.match(/\[.*?\]\(.*?\)/g) ?? []).filter((m) => !m.startsWith("!"));
-    return standard.length + (text.match(/\(.*?\)\[.*?\]/g) ?? []).length;
-  }
+    headings.forEach((start, n) => {
+      const block = blocks[start];
+      const level = block.level ?? 1;
+      const next = headings[n + 1] ?? blocks.length;
+      const end = headings.slice(n + 1).find((i) => (blocks[i].level ?? 1) <= level) ?? blocks.length;
+
+      const own = this.engine.documentMetrics(this.sliceDocument(doc, start, next), preset, context);
+      const heading = block.heading ?? "";
+      const comment = block.spans.find((s) => s.kind === "comment" && SECTION_BUDGET_COMMENT.test(s.text));
+      sections.push({
+        heading,
+        level,
+        line: block.line,
+        own,
+        total: end === next ? own : this.engine.documentMetrics(this.sliceDocument(doc, start, end), preset, context),
+        hasSubsections: end !== next,
+        budget: (comment && parseTarget(SECTION_BUDGET_COMMENT.exec(comment.text)![1])) || budgets.get(heading.toLowerCase()),
+      });
+    });
 
-  countWikiLinks(text: string): number {
-    return (text.match(/\[\[.*?\]\]/g) ?? []).length;
+    return sections;
   }
 
-  countCitekeys(text: string): number {
-    return (text.match(/\[@[^\]]+\]/g) ?? []).length;
+  /** Blocks [from, to) of a document as a document of their own. */
+  sliceDocument(doc: MarkdownDocument, from: number, to: number): MarkdownDocument {
+    const blocks = doc.blocks.slice(from, to);
+    const firstLine = blocks[0]?.line ?? 0;
+    const endLine = to < doc.blocks.length ? doc.blocks[to].line : doc.lines;
+    return { source: doc.source, blocks, lines: endLine - firstLine };
   }
 
-  // ── Status bar ────────────────────────────────────────────────────────────
+  /** Section budgets from frontmatter, keyed by lower-cased heading text. */
+  sectionBudgets(file: TFile | null): Map<string, MetricTarget> {
+    const budgets = new Map<string, MetricTarget>();
+    const frontmatter = file && this.app.metadataCache.getFileCache(file)?.frontmatter;
+    const map = parseFrontMatterEntry(frontmatter, SECTION_BUDGETS_KEY);
+    if (!map || typeof map !== "object") return budgets;
+    for (const [heading, value] of Object.entries(map)) {
+      const budget = parseTarget(value);
+      if (budget) budgets.set(heading.trim().toLowerCase(), budget);
+    }
+    return budgets;
+  }
 
-  buildStatusText(preset: Preset, m: Metrics, separator: string): string {
-    const parts: string[] = (
-      [
-        [preset.showWordsWithSpaces,    t.statusWords(m.wordsWithSpaces)],
-        [preset.showCharsWithSpaces,    t.statusChars(m.charsWithSpaces)],
-        [preset.showCharsWithoutSpaces, t.statusCharsNoSpaces(m.charsWithoutSpaces)],
-        [preset.showPages,              t.statusPages(m.pages)],
-        [preset.showLines,              t.statusLines(m.lines)],
-        [preset.showParagraphs,         t.statusParas(m.paragraphs)],
-        [preset.showMarkdownLinks,      t.statusMdLinks(m.markdownLinks)],
-        [preset.showWikiLinks,          t.statusWikiLinks(m.wikiLinks)],
-        [preset.showCitekeys,           t.statusCitekeys(m.citekeys)],
-      ] as [boolean, string][]
-    ).filter(([show]) => show).map(([, text]) => text);
-
-    return parts.join(separator);
-  }
-
-  updateCount() {
-    const preset = this.getActivePreset();
-    if (!preset) { this.statusBarItem.setText(""); return; }
+  // ── Index and file explorer badges ────────────────────────────────────────
 
-    const view = this.app.workspace.getActiveViewOfType(MarkdownView);
-    if (!view) { this.statusBarItem.setText(""); return; }
-
-    const selection = view.editor.getSelection();
-    const raw = selection.length > 0 ? selection : view.getViewData();
-
-    const base = this.preprocessBase(raw, preset);
-    const preprocessed = this.preprocessText(raw, preset);
-    const wordsWithSpaces = this.countWordsWithSpaces(preprocessed);
-
-    const metrics: Metrics = {
-      wordsWithSpaces,
-      charsWithSpaces: this.countCharsWithSpaces(base),
-      charsWithoutSpaces: this.countCharsWithoutSpaces(base),
-      pages: (wordsWithSpaces / preset.wordsPerPage).toFixed(1),
-      lines: this.countLines(raw),
-      paragraphs: this.countParagraphs(raw),
-      markdownLinks: this.countMarkdownLinks(raw),
-      wikiLinks: this.countWikiLinks(raw),
-      citekeys: this.countCitekeys(raw),
-    };
+  registerIndexEvents() {
+    const isNote = (file: unknown): file is TFile => file instanceof TFile && file.extension === "md";
 
-    const multiPreset = this.settings.presets.length > 1;
-    const stats = this.buildStatusText(preset, metrics, this.settings.separator);
-    this.statusBarItem.setText(stats || t.statusNoMetrics);
-    setTooltip(
-      this.statusBarItem,
-      multiPreset ? t.statusTooltipCycle(preset.name) : t.statusTooltipSingle(preset.name),
-      { placement: "top" }
-    );
-  }
+    this.app.workspace.onLayoutReady(() => {
+      this.index.build();
 
-  // ── Persistence ───────────────────────────────────────────────────────────
+      // Registered after the initial vault load, which fires "create" for every file
+      this.registerEvent(this.app.vault.on("create", async (file) => {
+        if (isNote(file) && await this.index.update(file)) this.onIndexChanged();
+      }));
+    });
 
-  async loadSettings() {
-    this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+    this.registerEvent(this.app.vault.on("modify", async (file) => {
+      this.forgetEmbed(file.path);
+      if (isNote(file) && await this.index.update(file)) this.onIndexChanged();
+    }));
+    this.registerEvent(this.app.vault.on("delete", (file) => {
+      this.forgetEmbed(file.path);
+      if (this.index.delete(file.path)) this.onIndexChanged();
+    }));
+    this.registerEvent(this.app.vault.on("rename", async (file, oldPath) => {
+      this.forgetEmbed(oldPath);
+      this.index.rename(oldPath, file.path);
+      // Moving a note may change which preset its folder rules select
+      if (isNote(file)) await this.index.update(file);
+      this.onIndexChanged();
+    }));
+    this.registerEvent(this.app.workspace.on("layout-change", () => this.refreshBadges()));
   }
 
-  async saveSettings() {
-    await this.saveData(this.settings);
+  onIndexChanged() {
+    this.requestSave();
+    this.refreshBadges();
   }
-}
 
-// ── Settings Tab ──────────────────────────────────────────────────────────────
+  // The index and the history change often while typing; write them at most every few seconds
+  requestSave = debounce(() => this.saveState(), 5000, true);
 
-class WordCountSettingTab extends PluginSettingTab {
-  plugin: WordCountPlugin;
+  refreshBadges = debounce(() => this.renderBadges(), 300, true);
 
-  constructor(app: App, plugin: WordCountPlugin) {
-    super(app, plugin);
-    this.plugin = plugin;
+  /** The first of words, pages or characters the active preset shows. */
+  badgeMetric(): BadgeMetric {
+    const preset = this.getActivePreset();
+    if (!preset || preset.showWordsWithSpaces) return "wordsWithSpaces";
+    if (preset.showPages) return "pages";
+    if (preset.showCharsWithSpaces) return "charsWithSpaces";
+    if (preset.showCharsWithoutSpaces) return "charsWithoutSpaces";
+    return "wordsWithSpaces";
   }
 
-  async save() {
-    this.plugin.refreshPresetCommands();
-    await this.plugin.saveSettings();
-    this.plugin.updateCount();
+  renderBadges() {
+    if (!this.settings.showExplorerBadges) { this.clearBadges(); return; }
+
+    const metric = this.badgeMetric();
+    const values = this.index.badgeValues(metric);
+    for (const leaf of this.app.workspace.getLeavesOfType("file-explorer")) {
+      const items = (leaf.view as unknown as FileExplorerView).fileItems ?? {};
+      for (const [path, item] of Object.entries(items)) {
+        const value = values.get(path);
+        let badge = item.selfEl.querySelector<HTMLElement>(".wcp-explorer-badge");
+        if (value === undefined) { badge?.remove(); continue; }
+        badge ??= item.selfEl.createDiv({ cls: "wcp-explorer-badge" });
+        badge.setText(t.badges[metric](compactNumber(value)));
+      }
+    }
   }
 
-  display(): void {
-    const { containerEl } = this;
-    containerEl.empty();
-    containerEl.createEl("h2", { text: t.settingsHeading });
-    containerEl.createEl("p", { text: t.settingsDescription, cls: "wcp-section-note" });
+  clearBadges() {
+    for (const leaf of this.app.workspace.getLeavesOfType("file-explorer")) {
+      leaf.view.containerEl.querySelectorAll(".wcp-explorer-badge").forEach((el) => el.remove());
+    }
+  }
 
-    new Setting(containerEl)
-      .setName(t.settingsSeparatorName)
-      .setDesc(t.settingsSeparatorDesc)
-      .addText((text) =>
-        text
-          .setPlaceholder("  |  ")
-          .setValue(this.plugin.settings.separator)
-          .onChange(async (value) => {
-            this.plugin.settings.separator = value;
-            await this.save();
-          })
-      );
+  // ── Frontmatter write-back ────────────────────────────────────────────────
+
+  registerFrontmatterEvents() {
+    this.registerEvent(this.app.vault.on("modify", (file) => {
+      if (file instanceof TFile && file.extension === "md") this.queueFrontmatter(file.path);
+    }));
+    // Leaving a note writes it too, in case it was edited before the plugin started
+    this.registerEvent(this.app.workspace.on("active-leaf-change", () => {
+      const path = this.app.workspace.getActiveFile()?.path ?? null;
+      if (this.lastActivePath && this.lastActivePath !== path) this.queueFrontmatter(this.lastActivePath);
+      this.lastActivePath = path;
+    }));
+  }
 
-    new Setting(containerEl)
-      .setName(t.settingsPresetsName)
-      .setDesc(t.settingsPresetsDesc)
-      .addButton((btn: ButtonComponent) =>
-        btn.setButtonText(t.settingsAddPreset).setCta().onClick(async () => {
-          const preset = defaultPreset({
-            name: t.newPresetName(this.plugin.settings.presets.length + 1),
-          });
-          this.plugin.settings.presets.push(preset);
-          await this.save();
-          this.display();
-        })
-      );
+  queueFrontmatter(path: string) {
+    this.pendingFrontmatter.add(path);
+    this.flushFrontmatter();
+  }
 
-    for (const preset of this.plugin.settings.presets) {
-      this.renderPreset(containerEl, preset);
+  private flushFrontmatter = debounce(async () => {
+    const paths = [...this.pendingFrontmatter];
+    this.pendingFrontmatter.clear();
+    for (const path of paths) {
+      const file = this.app.vault.getAbstractFileByPath(path);
+      if (file instanceof TFile) await this.writeFrontmatter(file);
     }
+  }, FRONTMATTER_WRITE_DELAY, true);
+
+  /** The preset that writes metrics to the note, if it does and its rules allow this note. */
+  frontmatterPreset(file: TFile): Preset | undefined {
+    const preset = this.resolvePreset(file)?.preset;
+    if (!preset?.writeFrontmatter) return undefined;
+    if (!matchesAnyGlob(file.path, preset.frontmatterInclude || "**")) return undefined;
+    if (matchesAnyGlob(file.path, preset.frontmatterExclude)) return undefined;
+    return preset;
   }
 
-  renderPreset(containerEl: HTMLElement, preset: Preset) {
-    const isActive = preset.id === this.plugin.settings.activePresetId;
-    const card = containerEl.createDiv({ cls: `wcp-preset-card${isActive ? " is-active" : ""}` });
+  /** Writes the note's metrics to its frontmatter; returns whether the note was modified. */
+  async writeFrontmatter(file: TFile): Promise<boolean> {
+    const preset = this.frontmatterPreset(file);
+    if (!preset) return false;
 
-    // ── Header ──────────────────────────────────────────────────────────────
-    const header = card.createDiv({ cls: "wcp-preset-header" });
+    const metrics = await this.countFile(file, preset);
+    const values: [string, number][] = [];
+    for (const key of METRIC_KEYS) {
+      const property = preset.frontmatterProperties[key]?.trim();
+      if (property) values.push([property, parseFloat(String(metrics[key]))]);
+    }
 
-    if (isActive) header.createEl("span", { text: t.badgeActive, cls: "wcp-active-badge" });
+    // Unchanged values are not written, so the write doesn't trigger another one
+    const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter ?? {};
+    if (values.every(([property, value]) => frontmatter[property] === value)) return false;
 
-    const nameInput = header.createEl("input", { type: "text" });
-    nameInput.value = preset.name;
-    nameInput.placeholder = t.inputNamePlaceholder;
-    nameInput.addClass("wcp-name-input");
-    nameInput.addEventListener("change", async () => {
-      preset.name = nameInput.value.trim() || t.unnamedPreset;
-      await this.save();
+    await this.app.fileManager.processFrontMatter(file, (fm: Record<string, unknown>) => {
+      for (const [property, value] of values) fm[property] = value;
     });
+    return true;
+  }
 
-    if (!isActive) {
-      const actBtn = header.createEl("button", { text: t.btnSetActive, cls: "wcp-btn" });
-      actBtn.addEventListener("click", async () => {
-        await this.plugin.activatePreset(preset.id);
-        this.display();
-      });
+  async backfillFrontmatter(folder: TFolder) {
+    const files = this.folderFiles(folder).filter((f) => this.frontmatterPreset(f));
+    if (files.length === 0) { new Notice(t.frontmatterNothingToWrite); return; }
+
+    const notice = new Notice(t.frontmatterWriting(files.length), 0);
+    let written = 0;
+    for (let i = 0; i < files.length; i++) {
+      if (await this.writeFrontmatter(files[i])) written++;
+      if (i % 50 === 49) await sleep(0);
     }
+    notice.hide();
+    new Notice(t.frontmatterWritten(written, files.length));
+  }
 
-    const delBtn = header.createEl("button");
-    setIcon(delBtn, "trash-2");
-    setTooltip(delBtn, t.btnDeleteTooltip, { placement: "top" });
-    delBtn.addClass("wcp-btn", "wcp-btn-delete");
-    delBtn.addEventListener("click", () => {
-      new DeleteConfirmModal(this.plugin.app, preset.name, async () => {
-        this.plugin.removePresetCommand(preset);
-        this.plugin.settings.presets = this.plugin.settings.presets.filter((p) => p.id !== preset.id);
-        if (this.plugin.settings.activePresetId === preset.id) {
-          this.plugin.settings.activePresetId = this.plugin.settings.presets[0]?.id ?? "";
-        }
-        await this.save();
-        this.display();
-      }).open();
-    });
+  // ── Writing goals ─────────────────────────────────────────────────────────
 
-    // ── Words per page ──────────────────────────────────────────────────────
-    const wppRow = card.createDiv({ cls: "wcp-wpp-row" });
-    wppRow.createEl("span", { text: t.wppLabel, cls: "wcp-wpp-label" });
+  /** The note's deadline from frontmatter, with the words per day its word target needs. */
+  deadlinePlan(file: TFile | null, targets: Targets, words: number): DeadlinePlan | undefined {
+    const frontmatter = file && this.app.metadataCache.getFileCache(file)?.frontmatter;
+    const value = frontmatter && parseFrontMatterEntry(frontmatter, this.settings.deadlineFrontmatterKey);
+    const target = targets.wordsWithSpaces;
+    const goal = target && (target.min ?? target.max);
+    if (!file || !value || !goal) return undefined;
 
-    const wppInput = wppRow.createEl("input", { type: "number" });
-    wppInput.value = String(preset.wordsPerPage);
-    wppInput.min = "1";
-    wppInput.addClass("wcp-wpp-input");
-    wppInput.addEventListener("change", async () => {
-      const n = parseInt(wppInput.value);
-      if (!isNaN(n) && n > 0) { preset.wordsPerPage = n; await this.save(); }
-    });
-    wppRow.createEl("span", { text: t.wppSuffix, cls: "wcp-wpp-suffix" });
+    const deadline = moment(String(value), DAY_FORMAT, true);
+    if (!deadline.isValid()) return undefined;
 
-    // ── Status bar metrics ──────────────────────────────────────────────────
-    this.sectionHeader(card, t.sectionStatusBar);
-    card.createEl("p", { text: t.sectionStatusBarNote, cls: "wcp-section-note" });
+    const today = this.tracker.written(moment().format(DAY_FORMAT), file.path);
+    const remaining = Math.max(goal - (words - today), 0);
+    const daysLeft = deadline.diff(moment().startOf("day"), "days") + 1;
+    const perDay = daysLeft > 0 ? Math.ceil(remaining / daysLeft) : remaining;
+    return { date: deadline.format(DAY_FORMAT), target: goal, remaining, daysLeft, perDay, today };
+  }
 
-    const visGrid = card.createDiv({ cls: "wcp-toggle-grid" });
-    for (const key of Object.keys(t.toggles) as (keyof typeof t.toggles)[]) {
-      this.renderToggleChip(visGrid, preset, key as keyof Preset, t.toggles[key].label, t.toggles[key].hint);
+  /** Daily goal and deadline segments shown after the preset's metrics. */
+  buildGoalSegments(file: TFile | null, targets: Targets, words: number): StatusSegment[] {
+    const segments: StatusSegment[] = [];
+    const { dailyGoal } = this.settings;
+    if (dailyGoal > 0) {
+      const today = this.tracker.written(moment().format(DAY_FORMAT));
+      segments.push({
+        text: t.statusToday(today.toLocaleString(), dailyGoal.toLocaleString()),
+        state: targetState(today, { min: dailyGoal }),
+      });
+    }
+
+    const plan = this.deadlinePlan(file, targets, words);
+    if (plan) {
+      const text = plan.daysLeft <= 0
+        ? t.statusDeadlinePassed(plan.date)
+        : plan.remaining === 0 ? t.statusDeadlineReached : t.statusDeadline(plan.perDay.toLocaleString(), plan.date);
+      segments.push({ text, state: targetState(plan.today, { min: plan.perDay }) });
+    }
+    return segments;
+  }
+
+  // ── Status bar ────────────────────────────────────────────────────────────
+
+  /** Preset targets with per-note frontmatter overrides applied on top. */
+  resolveTargets(preset: Preset, file: TFile | null): Targets {
+    const targets: Targets = { ...preset.targets };
+    const frontmatter = file && this.app.metadataCache.getFileCache(file)?.frontmatter;
+    if (!frontmatter) return targets;
+
+    for (const metric of TARGET_METRICS) {
+      const override = parseTarget(parseFrontMatterEntry(frontmatter, TARGET_FRONTMATTER_KEYS[metric]));
+      if (override) targets[metric] = override;
+    }
+    return targets;
+  }
+
+  /**
+   * Segments for the enabled metrics. With `whole`, `m` is a selection and each
+   * metric reads "selection / document"; targets are then checked against the document.
+   */
+  buildStatusSegments(preset: Preset, m: Metrics, targets: Targets = preset.targets, whole?: Metrics): StatusSegment[] {
+    if (preset.statusTemplate.trim()) return templateSegments(preset, m, targets, t, whole);
+
+    // Numbers with digit grouping ("4,812"); pages are already formatted with their decimals
+    const number = (v: number | string) => (typeof v === "number" ? v.toLocaleString() : v);
+    const both = (read: (x: Metrics) => number | string, format: (v: number | string) => string = number) =>
+      whole ? `${format(read(m))} / ${format(read(whole))}` : format(read(m));
+    const duration = (v: number | string) => formatDuration(v as number, t);
+    const doc = whole ?? m;
+    const rows = [
+      [preset.showWordsWithSpaces,    t.statusWords(both((x) => x.wordsWithSpaces)),                 "wordsWithSpaces",    doc.wordsWithSpaces],
+      [preset.showCharsWithSpaces,    t.statusChars(both((x) => x.charsWithSpaces)),                 "charsWithSpaces",    doc.charsWithSpaces],
+      [preset.showCharsWithoutSpaces, t.statusCharsNoSpaces(both((x) => x.charsWithoutSpaces)),      "charsWithoutSpaces", doc.charsWithoutSpaces],
+      [preset.showPages,              t.statusPages(both((x) => x.pages)),                           "pages",              parseFloat(doc.pages)],
+      [preset.showAuthorSheets,       t.statusAuthorSheets(both((x) => x.authorSheets))],
+      [preset.showLines,              t.statusLines(both((x) => x.lines))],
+      [preset.showParagraphs,         t.statusParas(both((x) => x.paragraphs))],
+      [preset.showMarkdownLinks,      t.statusMdLinks(both((x) => x.markdownLinks))],
+      [preset.showWikiLinks,          t.statusWikiLinks(both((x) => x.wikiLinks))],
+      [preset.showCitekeys,           t.statusCitekeys(both((x) => x.citekeys)),                     "citekeys",           doc.citekeys],
+      [preset.showUniqueCitekeys,     t.statusUniqueCitekeys(both((x) => x.uniqueCitekeys))],
+      [preset.showCjkChars,           t.statusCjkChars(both((x) => x.cjkChars))],
+      [preset.showSentences,          t.statusSentences(both((x) => x.sentences))],
+      [preset.showAvgSentenceLength,  t.statusAvgSentenceLength(both((x) => x.avgSentenceLength))],
+      [preset.showReadingTime,        t.statusReadingTime(both((x) => x.readingTime, duration))],
+      [preset.showSpeakingTime,       t.statusSpeakingTime(both((x) => x.speakingTime, duration))],
+      [preset.showReadability,        t.statusReadability(both((x) => x.readability))],
+    ] as [boolean, string, TargetMetric?, number?][];
+
+    const segments: StatusSegment[] = rows.filter(([show]) => show).map(([, text, metric, value]) => {
+      const target = metric && targets[metric];
+      const goal = target && (target.max ?? target.min);
+      if (!target || goal === undefined || value === undefined) return { text };
+      const state = targetState(value, target);
+      // "120 / 900 / 1000 (90%)" would be unreadable, so a selection only colours the segment
+      if (whole) return { text, state };
+      const percent = Math.round((value / goal) * 100);
+      return { text: text + t.statusTargetSuffix(goal.toLocaleString(), percent), state };
+    });
+    for (const counter of preset.customCounters) {
+      if (counter.show) segments.push({ text: t.statusCustom(counter.label, both((x) => x.custom?.[counter.id] ?? 0)) });
+    }
+    return segments;
+  }
+
+  buildStatusText(preset: Preset, m: Metrics, separator: string, targets?: Targets): string {
+    return this.buildStatusSegments(preset, m, targets)
+      .map((s, i) => (i > 0 && !s.glue ? separator : "") + s.text)
+      .join("");
+  }
+
+  renderStatusSegments(segments: StatusSegment[], separator: string) {
+    this.statusBarItem.empty();
+    if (segments.length === 0) { this.statusBarItem.setText(t.statusNoMetrics); return; }
+
+    segments.forEach((segment, i) => {
+      if (i > 0 && !segment.glue) this.statusBarItem.createSpan({ text: separator, cls: "wcp-status-separator" });
+      const span = this.statusBarItem.createSpan({ text: segment.text, cls: "wcp-status-segment" });
+      if (segment.state) span.addClass(`wcp-target-${segment.state}`);
+      if (segment.icon) { span.addClass("wcp-status-icon"); setIcon(span, segment.icon); }
+    });
+  }
+
+  /** Counts soon, when the app is idle; edits and selection changes come in bursts. */
+  requestCount(typed = false) {
+    if (typed) this.pendingTyped = true;
+    this.scheduleCount();
+  }
+
+  private scheduleCount = debounce(() => {
+    if (this.idleCount !== undefined) return;
+    this.idleCount = requestIdle(() => {
+      this.idleCount = undefined;
+      const typed = this.pendingTyped;
+      this.pendingTyped = false;
+      this.updateCount(typed);
+    }, COUNT_IDLE_TIMEOUT);
+  }, COUNT_DELAY, false);
+
+  /** Pass `typed` for edits in the editor, so the words written are tracked. */
+  updateCount(typed = false) {
+    const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+    if (view) { this.countNote(view, typed); return; }
+    const canvas = this.activeCanvas();
+    if (canvas?.file) { this.countCanvas(canvas, canvas.file); return; }
+    this.clearStatus();
+  }
+
+  private countNote(view: MarkdownView, typed: boolean) {
+    const resolved = this.resolvePreset(view.file);
+    if (!resolved) { this.clearStatus(); return; }
+    const { preset } = resolved;
+
+    const raw = view.getViewData();
+    const path = view.file?.path;
+    const context = path ? this.embedContext(path) : undefined;
+    const whole = this.blockCache.use(preset, () => this.engine.computeMetrics(raw, preset, context, this.blockCache));
+    const selections = view.getMode() === "preview" ? this.renderedSelection(view.contentEl) : this.selectedTexts(view.editor);
+    const selection = selections.length > 0
+      ? this.engine.sumMetrics(selections.map((text) => this.engine.computeMetrics(text, preset, path ? this.embedContext(path) : undefined)), preset)
+      : undefined;
+
+    // Writing is tracked against the whole note, even while text is selected
+    const words = whole.wordsWithSpaces;
+    if (view.file && this.tracker.observe(view.file.path, words, typed)) this.requestSave();
+
+    const recount = (other: Preset) => {
+      const cache = this.presetCaches.get(other.id) ?? new BlockCache();
+      this.presetCaches.set(other.id, cache);
+      return cache.use(other, () => this.engine.computeMetrics(raw, other, path ? this.embedContext(path) : undefined, cache));
+    };
+    this.showCount(view.file, resolved, recount, whole, selection, context?.words ?? new Map());
+  }
+
+  /**
+   * Counts the cards of a canvas. Selected text (reading or editing a card) is
+   * the selection, otherwise the selected cards are.
+   */
+  private countCanvas(view: TextFileView, file: TFile) {
+    const resolved = this.resolvePreset(file);
+    if (!resolved) { this.clearStatus(); return; }
+    const { preset } = resolved;
+
+    let nodes: AllCanvasNodeData[];
+    try {
+      nodes = (JSON.parse(view.getViewData() || "{}") as Partial<CanvasData>).nodes ?? [];
+    } catch {
+      // Saved by another app while it was being written
+      nodes = [];
+    }
+    const context = this.embedContext(file.path);
+    const whole = this.engine.canvasMetrics(nodes, preset, context);
+
+    const texts = this.renderedSelection(view.contentEl);
+    const selected = (view as unknown as CanvasView).canvas?.selection ?? new Set();
+    const ids = new Set([...selected].map((node) => node.id));
+    const selection = texts.length > 0
+      ? this.engine.sumMetrics(texts.map((text) => this.engine.computeMetrics(text, preset, this.embedContext(file.path))), preset)
+      : ids.size > 0
+        ? this.engine.canvasMetrics(nodes.filter((node) => ids.has(node.id)), preset, this.embedContext(file.path))
+        : undefined;
+
+    const recount = (other: Preset) => this.engine.canvasMetrics(nodes, other, this.embedContext(file.path));
+    this.showCount(file, resolved, recount, whole, selection, context.words);
+  }
+
+  private showCount(
+    file: TFile | null, resolved: ResolvedPreset, recount: (preset: Preset) => Metrics,
+    whole: Metrics, selection: Metrics | undefined, embeds: Map<string, number>,
+  ) {
+    const { preset } = resolved;
+    const targets = this.resolveTargets(preset, file);
+    const segments = selection
+      ? this.buildStatusSegments(preset, selection, targets, whole)
+      : this.buildStatusSegments(preset, whole, targets);
+    segments.push(...this.buildGoalSegments(file, targets, whole.wordsWithSpaces));
+    this.renderStatusSegments(segments, this.settings.separator);
+
+    this.emitCountChanged({ file, preset: presetInfo(preset), metrics: selection ?? whole, selection: !!selection });
+
+    this.lastCount = { resolved, recount, document: whole, selection, embeds };
+    this.popover.refresh();
+  }
+
+  private clearStatus() {
+    this.statusBarItem.setText("");
+    this.lastCount = undefined;
+    this.popover.hide();
+  }
+
+  /** The active canvas view, if any; its API is private, so it is only known by its type. */
+  activeCanvas(): TextFileView | null {
+    const view = this.app.workspace.getActiveViewOfType(TextFileView);
+    return view?.getViewType() === "canvas" ? view : null;
+  }
+
+  /** Whether the status bar counts text selected in rendered Markdown rather than in an editor. */
+  private countsRenderedSelection(): boolean {
+    const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+    return view ? view.getMode() === "preview" : this.activeCanvas() !== null;
+  }
+
+  /** Text selected in rendered Markdown (reading view, canvas cards) inside `container`. */
+  private renderedSelection(container: HTMLElement): string[] {
+    const selection = container.win.getSelection();
+    if (!selection || selection.isCollapsed || !container.contains(selection.anchorNode)) return [];
+    const text = selection.toString();
+    return text.trim() ? [text] : [];
+  }
+
+  /** Text of every non-empty selection (multiple cursors), in document order. */
+  private selectedTexts(editor: Editor): string[] {
+    const text = editor.getValue();
+    return editor.listSelections()
+      .map((range) => [editor.posToOffset(range.anchor), editor.posToOffset(range.head)].sort((x, y) => x - y))
+      .filter(([from, to]) => from < to)
+      .sort((x, y) => x[0] - y[0])
+      .map(([from, to]) => text.slice(from, to));
+  }
+
+  /**
+   * Every metric of the active note for the status bar popover: the selection and
+   * the document with the active preset, then the document with each other preset.
+   */
+  statusColumns(): { title: string; metrics: Metrics }[] {
+    const count = this.lastCount;
+    if (!count) return [];
+    const { preset } = count.resolved;
+    const columns: { title: string; metrics: Metrics }[] = [];
+    if (count.selection) columns.push({ title: t.popoverSelection, metrics: count.selection });
+    columns.push({ title: t.popoverDocument, metrics: count.document });
+    for (const other of this.settings.presets) {
+      if (other.id === preset.id) continue;
+      columns.push({ title: other.name, metrics: count.recount(other) });
+    }
+    for (const id of this.presetCaches.keys()) {
+      if (!this.settings.presets.some((p) => p.id === id)) this.presetCaches.delete(id);
+    }
+    return columns;
+  }
+
+  emitCountChanged(event: CountChangedEvent) {
+    const key = JSON.stringify([event.file?.path, event.preset.id, event.metrics, event.selection]);
+    if (key === this.lastCountKey) return;
+    this.lastCountKey = key;
+    this.app.workspace.trigger(COUNT_CHANGED_EVENT, event);
+  }
+
+  // ── Persistence ───────────────────────────────────────────────────────────
+
+  async loadSettings() {
+    const { index, history, ...settings }: Partial<PluginData> = (await this.loadData()) ?? {};
+    this.settings = Object.assign({}, DEFAULT_SETTINGS, settings);
+    // Fill in options added after a preset was saved
+    this.settings.presets = this.settings.presets.map((p) => defaultPreset(p));
+
+    const indexText = await this.readStateFile(INDEX_FILE);
+    if (indexText !== undefined) this.index.load(indexText);
+    else if (index) this.index.migrate(index);
+    const historyText = await this.readStateFile(HISTORY_FILE);
+    if (historyText !== undefined) this.tracker.load(historyText);
+    else if (history) this.tracker.migrate(history);
+    // Older versions kept the index and the history in data.json
+    if (index || history) {
+      await this.saveState();
+      await this.saveSettings();
+    }
+  }
+
+  async saveSettings() {
+    await this.saveData(this.settings);
+  }
+
+  /** Writes the index entries and the history that changed since the last save. */
+  async saveState() {
+    const adapter = this.app.vault.adapter;
+    const index = this.index.takeChanges();
+    if (index) {
+      const path = this.statePath(INDEX_FILE);
+      await (index.rewrite ? adapter.write(path, index.text) : adapter.append(path, index.text));
+    }
+    const history = this.tracker.takeChanges();
+    if (history !== undefined) await adapter.write(this.statePath(HISTORY_FILE), history);
+  }
+
+  async readStateFile(file: string): Promise<string | undefined> {
+    const path = this.statePath(file);
+    return (await this.app.vault.adapter.exists(path)) ? this.app.vault.adapter.read(path) : undefined;
+  }
+
+  /** A file in the plugin folder, next to data.json. */
+  statePath(file: string): string {
+    return normalizePath(`${this.manifest.dir}/${file}`);
+  }
+}
+
+// ── Status bar popover ────────────────────────────────────────────────────────
+
+const POPOVER_SHOW_DELAY = 400;
+const POPOVER_HIDE_DELAY = 200;
+
+/** Table of every metric shown while hovering the status bar. */
+class StatusPopover {
+  private plugin: WordCountPlugin;
+  private anchor: HTMLElement;
+  private el: HTMLElement | null = null;
+  private timer = 0;
+
+  constructor(plugin: WordCountPlugin, anchor: HTMLElement) {
+    this.plugin = plugin;
+    this.anchor = anchor;
+    plugin.registerDomEvent(anchor, "mouseenter", () => this.schedule(() => this.show(), POPOVER_SHOW_DELAY));
+    plugin.registerDomEvent(anchor, "mouseleave", () => this.schedule(() => this.hide(), POPOVER_HIDE_DELAY));
+  }
+
+  show() {
+    if (!this.plugin.lastCount) return;
+    if (!this.el) {
+      this.el = document.body.createDiv({ cls: "wcp-popover" });
+      // Stay open while the pointer moves onto the popover, e.g. to copy a row
+      this.el.addEventListener("mouseenter", () => window.clearTimeout(this.timer));
+      this.el.addEventListener("mouseleave", () => this.schedule(() => this.hide(), POPOVER_HIDE_DELAY));
+    }
+    this.render(this.el);
+    const rect = this.anchor.getBoundingClientRect();
+    this.el.style.setProperty("--wcp-popover-bottom", `${window.innerHeight - rect.top}px`);
+    this.el.style.setProperty("--wcp-popover-right", `${Math.max(window.innerWidth - rect.right, 0)}px`);
+  }
+
+  hide() {
+    window.clearTimeout(this.timer);
+    this.el?.remove();
+    this.el = null;
+  }
+
+  /** Redraws the popover, if open, after the count changed. */
+  refresh() {
+    if (this.el) this.show();
+  }
+
+  private schedule(action: () => void, delay: number) {
+    window.clearTimeout(this.timer);
+    this.timer = window.setTimeout(action, delay);
+  }
+
+  private render(el: HTMLElement) {
+    const count = this.plugin.lastCount!;
+    const { preset } = count.resolved;
+    el.empty();
+
+    const header = el.createDiv({ cls: "wcp-popover-header" });
+    header.createDiv({ text: preset.name, cls: "wcp-popover-title" });
+    header.createDiv({ text: this.plugin.describePresetSource(count.resolved), cls: "wcp-popover-note" });
+    if (this.plugin.settings.presets.length > 1) header.createDiv({ text: t.popoverCycleHint, cls: "wcp-popover-note" });
+
+    const columns = this.plugin.statusColumns();
+    const table = el.createEl("table", { cls: "wcp-popover-table" });
+    const head = table.createEl("thead").createEl("tr");
+    head.createEl("th");
+    for (const column of columns) head.createEl("th", { text: column.title });
+    head.createEl("th");
+
+    // Custom counters belong to the active preset; other presets may not have them
+    const rows: [string, (m: Metrics) => string][] = [
+      ...METRIC_KEYS.map((key): [string, (m: Metrics) => string] => [t.metricLabels[key], (m) => String(m[key])]),
+      ...preset.customCounters.map((c): [string, (m: Metrics) => string] => [c.label, (m) => String(m.custom?.[c.id] ?? "–")]),
+    ];
+    const body = table.createEl("tbody");
+    for (const [label, read] of rows) {
+      const values = columns.map((column) => read(column.metrics));
+      const tr = body.createEl("tr");
+      tr.createEl("td", { text: label });
+      for (const value of values) tr.createEl("td", { text: value });
+      const copy = tr.createEl("td").createEl("button", { cls: "clickable-icon wcp-popover-copy" });
+      setIcon(copy, "copy");
+      setTooltip(copy, t.popoverCopyRow, { placement: "left" });
+      copy.addEventListener("click", async () => {
+        await navigator.clipboard.writeText([label, ...values].join("\t"));
+        new Notice(t.reportCopied);
+      });
+    }
+
+    if (count.embeds.size > 0) {
+      const embeds = el.createDiv({ cls: "wcp-popover-embeds" });
+      embeds.createDiv({ text: t.popoverEmbeds, cls: "wcp-popover-note" });
+      for (const [path, words] of count.embeds) embeds.createDiv({ text: t.popoverEmbed(path.replace(/\.md$/, ""), words) });
+    }
+  }
+}
+
+// ── Word count index ──────────────────────────────────────────────────────────
+//
+// Metrics of every note in the vault, keyed by path. An entry is recounted only
+// when the file's mtime or size changes, or when the preset that applies to the
+// note now counts differently, so the index survives restarts without recounting.
+
+class WordCountIndex {
+  private plugin: WordCountPlugin;
+  private entries: Map<string, IndexEntry> = new Map();
+  private building = false;
+  private rebuildRequested = false;
+  // Paths whose entries changed since the index file was last written
+  private changed: Set<string> = new Set();
+  // Lines in the index file, including those a later line replaces
+  private lines = 0;
+
+  constructor(plugin: WordCountPlugin) {
+    this.plugin = plugin;
+  }
+
+  /** Replays the index file: a [path, entry] line for every change, with null for a removed note. */
+  load(text: string) {
+    this.entries = new Map();
+    this.lines = 0;
+    for (const line of text.split("\n")) {
+      if (!line) continue;
+      this.lines++;
+      try {
+        const [path, entry] = JSON.parse(line) as [string, IndexEntry | null];
+        if (entry) this.entries.set(path, entry);
+        else this.entries.delete(path);
+      } catch {
+        // A line cut short when Obsidian quit while writing; the note is recounted
+      }
+    }
+  }
+
+  /** Takes over an index older versions kept in data.json; it is written to the index file on the next save. */
+  migrate(data: SerializedIndex) {
+    this.entries = new Map(Object.entries(data));
+    this.entries.forEach((_, path) => this.changed.add(path));
+  }
+
+  /**
+   * Lines for the entries changed since the last call, to append to the index file,
+   * or the whole index to rewrite it with when the file has grown too long.
+   */
+  takeChanges(): { text: string; rewrite: boolean } | undefined {
+    if (this.changed.size === 0) return undefined;
+    const rewrite = this.lines === 0 || this.lines + this.changed.size > 2 * this.entries.size + INDEX_FILE_SLACK;
+    const paths = rewrite ? [...this.entries.keys()] : [...this.changed];
+    this.changed.clear();
+    this.lines = rewrite ? paths.length : this.lines + paths.length;
+    return { text: paths.map((path) => `${JSON.stringify([path, this.entries.get(path) ?? null])}\n`).join(""), rewrite };
+  }
+
+  get(path: string): Metrics | undefined {
+    return this.entries.get(path)?.metrics;
+  }
+
+  /** Recounts the note if it is stale; returns whether the entry changed. */
+  async update(file: TFile): Promise<boolean> {
+    const preset = this.plugin.resolvePreset(file)?.preset;
+    if (!preset) return false;
+
+    const key = presetKey(preset);
+    const { mtime, size } = file.stat;
+    const entry = this.entries.get(file.path);
+    if (entry && entry.mtime === mtime && entry.size === size && entry.presetKey === key) return false;
+
+    const metrics = await this.plugin.countFile(file, preset);
+    this.entries.set(file.path, { mtime, size, presetKey: key, metrics });
+    this.changed.add(file.path);
+    return true;
+  }
+
+  delete(path: string): boolean {
+    if (!this.entries.delete(path)) return false;
+    this.changed.add(path);
+    return true;
+  }
+
+  rename(oldPath: string, newPath: string) {
+    const entry = this.entries.get(oldPath);
+    if (!entry) return;
+    this.delete(oldPath);
+    this.entries.set(newPath, entry);
+    this.changed.add(newPath);
+  }
+
+  /** Brings every note up to date in the background, yielding to the UI between batches. */
+  async build() {
+    if (this.building) { this.rebuildRequested = true; return; }
+    this.building = true;
+    try {
+      do {
+        this.rebuildRequested = false;
+        const files = this.plugin.app.vault.getMarkdownFiles();
+        const paths = new Set(files.map((f) => f.path));
+        let changed = false;
+
+        for (const path of [...this.entries.keys()]) {
+          if (!paths.has(path)) changed = this.delete(path) || changed;
+        }
+        for (let i = 0; i < files.length; i++) {
+          if (await this.update(files[i])) changed = true;
+          if (i % 50 === 49) await sleep(0);
+        }
+        if (changed) this.plugin.onIndexChanged();
+      } while (this.rebuildRequested);
+    } finally {
+      this.building = false;
+    }
+  }
+
+  // Preset edits come in bursts while typing in the settings tab
+  requestBuild = debounce(() => this.build(), 1000, true);
+
+  /** The metric of every indexed note, plus sums for all folders above them. */
+  badgeValues(metric: BadgeMetric): Map<string, number> {
+    const values = new Map<string, number>();
+    this.entries.forEach((entry, path) => {
+      const value = parseFloat(String(entry.metrics[metric]));
+      values.set(path, value);
+      for (let i = path.lastIndexOf("/"); i > 0; i = path.lastIndexOf("/", i - 1)) {
+        const folder = path.slice(0, i);
+        values.set(folder, (values.get(folder) ?? 0) + value);
+      }
+    });
+    return values;
+  }
+}
+
+// ── Public API ────────────────────────────────────────────────────────────────
+//
+// For other plugins and scripts, e.g. in Templater or Dataview JS:
+//   app.plugins.getPlugin("advanced-word-count").api.countText("Some text", "Journal A")
+// Presets are referred to by name or ID; without one, the note's own preset is used.
+
+export type { Metrics };
+
+export interface PresetInfo {
+  id: string;
+  name: string;
+}
+
+/** Payload of the "advanced-word-count:count-changed" workspace event. */
+export interface CountChangedEvent {
+  file: TFile | null;
+  preset: PresetInfo;
+  metrics: Metrics;
+  selection: boolean; // the metrics are of the selected text
+}
+
+export interface WordCountApi {
+  /** Counts Markdown text with a preset, or with the default preset. */
+  countText(text: string, preset?: string): Metrics | undefined;
+  /** Counts a note with a preset, or with the preset it resolves to. */
+  countFile(path: string, preset?: string): Promise<Metrics | undefined>;
+  getPresets(): PresetInfo[];
+  /** The preset of the active note, or the default preset without one. */
+  getActivePreset(): PresetInfo | undefined;
+  /** Switches presets like the status bar does; returns false for an unknown preset. */
+  activatePreset(preset: string): Promise<boolean>;
+}
+
+class PublicApi implements WordCountApi {
+  private plugin: WordCountPlugin;
+
+  constructor(plugin: WordCountPlugin) {
+    this.plugin = plugin;
+  }
+
+  countText(text: string, preset?: string): Metrics | undefined {
+    const resolved = preset === undefined ? this.plugin.getActivePreset() : this.plugin.findPreset(preset);
+    return resolved && this.plugin.engine.computeMetrics(text, resolved);
+  }
+
+  async countFile(path: string, preset?: string): Promise<Metrics | undefined> {
+    const file = this.plugin.app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) return undefined;
+    const resolved = preset === undefined ? this.plugin.resolvePreset(file)?.preset : this.plugin.findPreset(preset);
+    return resolved && this.plugin.countFile(file, resolved);
+  }
+
+  getPresets(): PresetInfo[] {
+    return this.plugin.settings.presets.map(presetInfo);
+  }
+
+  getActivePreset(): PresetInfo | undefined {
+    const resolved = this.plugin.resolvePreset(this.plugin.app.workspace.getActiveFile());
+    return resolved && presetInfo(resolved.preset);
+  }
+
+  async activatePreset(preset: string): Promise<boolean> {
+    const resolved = this.plugin.findPreset(preset);
+    if (!resolved) return false;
+    await this.plugin.activatePreset(resolved.id);
+    return true;
+  }
+}
+
+// ── Writing tracker ───────────────────────────────────────────────────────────
+//
+// Words written per note and day, from the difference between consecutive counts
+// of the active note. Only edits in the editor are tracked: opening a note, switching
+// presets or a change from outside only resets the note's baseline, and bulk changes
+// like pastes are skipped.
+
+class WritingTracker {
+  private plugin: WordCountPlugin;
+  private history: WritingHistory = {};
+  // Whether the history changed since the history file was last written
+  private changed = false;
+  // Last word count of every note seen since startup
+  private baselines: Map<string, number> = new Map();
+
+  constructor(plugin: WordCountPlugin) {
+    this.plugin = plugin;
+  }
+
+  load(text: string) {
+    try {
+      this.history = JSON.parse(text) as WritingHistory;
+    } catch {
+      this.history = {};
+    }
+  }
+
+  /** Takes over a history older versions kept in data.json; it is written to the history file on the next save. */
+  migrate(data: WritingHistory) {
+    this.history = data;
+    this.changed = true;
+  }
+
+  /** The history to write, if it changed since the last call. */
+  takeChanges(): string | undefined {
+    if (!this.changed) return undefined;
+    this.changed = false;
+    return JSON.stringify(this.history);
+  }
+
+  /** Records the note's new word count; returns whether the history changed. */
+  observe(path: string, words: number, typed: boolean): boolean {
+    const baseline = this.baselines.get(path);
+    this.baselines.set(path, words);
+    if (!typed || baseline === undefined) return false;
+
+    const delta = words - baseline;
+    if (delta === 0 || Math.abs(delta) > BULK_CHANGE_WORDS) return false;
+
+    const day = moment().format(DAY_FORMAT);
+    const notes = this.history[day] ?? (this.history[day] = {});
+    notes[path] = (notes[path] ?? 0) + delta;
+    this.changed = true;
+    return true;
+  }
+
+  /** Words written on the day, in one note or in all of them. */
+  written(day: string, path?: string): number {
+    const notes = this.history[day];
+    if (!notes) return 0;
+    if (path !== undefined) return notes[path] ?? 0;
+    return Object.keys(notes).reduce((sum, p) => sum + notes[p], 0);
+  }
+
+  rename(oldPath: string, newPath: string) {
+    for (const day of Object.keys(this.history)) {
+      const notes = this.history[day];
+      if (notes[oldPath] === undefined) continue;
+      notes[newPath] = (notes[newPath] ?? 0) + notes[oldPath];
+      delete notes[oldPath];
+      this.changed = true;
+    }
+    const baseline = this.baselines.get(oldPath);
+    this.baselines.delete(oldPath);
+    if (baseline !== undefined) this.baselines.set(newPath, baseline);
+    this.plugin.requestSave();
+  }
+
+  /** Days in a row the daily goal was reached (or anything was written, without a goal). */
+  streaks(goal: number): Streaks {
+    const days = Object.keys(this.history).filter((day) => this.written(day) >= Math.max(goal, 1)).sort();
+    let longest = 0;
+    let run = 0;
+    let previous: moment.Moment | undefined;
+    for (const day of days) {
+      const date = moment(day, DAY_FORMAT);
+      run = previous && date.diff(previous, "days") === 1 ? run + 1 : 1;
+      longest = Math.max(longest, run);
+      previous = date;
+    }
+
+    // Today still counts as part of the streak until it's over
+    const reached = new Set(days);
+    const date = moment();
+    if (!reached.has(date.format(DAY_FORMAT))) date.subtract(1, "day");
+    let current = 0;
+    while (reached.has(date.format(DAY_FORMAT))) {
+      current++;
+      date.subtract(1, "day");
+    }
+    return { current, longest };
+  }
+}
+
+// ── Settings Tab ──────────────────────────────────────────────────────────────
+
+class WordCountSettingTab extends PluginSettingTab {
+  // Preset card being dragged to a new place
+  private draggedPresetId: string | null = null;
+  // Previews in preset cards: which are expanded and what they count, kept while the settings are open
+  private openPreviews: Set<string> = new Set();
+  private previewSources: Map<string, PreviewSource> = new Map();
+  private previewSample: string = t.previewSample;
+  // Redraw the previews of the cards on display after a preset changes
+  private previewRefreshers: (() => void)[] = [];
+  plugin: WordCountPlugin;
+
+  constructor(app: App, plugin: WordCountPlugin) {
+    super(app, plugin);
+    this.plugin = plugin;
+  }
+
+  async save() {
+    this.plugin.refreshPresetCommands();
+    await this.plugin.saveSettings();
+    this.plugin.updateCount();
+    this.plugin.index.requestBuild();
+    this.plugin.refreshBadges();
+    for (const refresh of this.previewRefreshers) refresh();
+  }
+
+  display(): void {
+    const { containerEl } = this;
+    containerEl.empty();
+    this.previewRefreshers = [];
+    containerEl.createEl("h2", { text: t.settingsHeading });
+    containerEl.createEl("p", { text: t.settingsDescription, cls: "wcp-section-note" });
+
+    new Setting(containerEl)
+      .setName(t.settingsSeparatorName)
+      .setDesc(t.settingsSeparatorDesc)
+      .addText((text) =>
+        text
+          .setPlaceholder("  |  ")
+          .setValue(this.plugin.settings.separator)
+          .onChange(async (value) => {
+            this.plugin.settings.separator = value;
+            await this.save();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(t.settingsExplorerBadgesName)
+      .setDesc(t.settingsExplorerBadgesDesc)
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.showExplorerBadges).onChange(async (value) => {
+          this.plugin.settings.showExplorerBadges = value;
+          await this.save();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName(t.settingsPresetsName)
+      .setDesc(t.settingsPresetsDesc)
+      .addButton((btn: ButtonComponent) =>
+        btn.setButtonText(t.settingsAddPreset).setCta().onClick(async () => {
+          const preset = defaultPreset({
+            name: t.newPresetName(this.plugin.settings.presets.length + 1),
+          });
+          this.plugin.settings.presets.push(preset);
+          await this.save();
+          this.display();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName(t.settingsShareName)
+      .setDesc(t.settingsShareDesc)
+      .addButton((btn: ButtonComponent) =>
+        btn.setButtonText(t.settingsExportAll).onClick(() => this.copyPresets(this.plugin.settings.presets))
+      )
+      .addButton((btn: ButtonComponent) =>
+        btn.setButtonText(t.settingsSaveFile).onClick(() => this.savePresetsFile())
+      )
+      .addButton((btn: ButtonComponent) =>
+        btn.setButtonText(t.settingsImport).onClick(() =>
+          new ImportPresetsModal(this.app, async (presets, mode) => {
+            this.plugin.importPresets(presets, mode);
+            await this.save();
+            this.display();
+          }).open()
+        )
+      );
+
+    for (const preset of this.plugin.settings.presets) {
+      this.renderPreset(containerEl, preset);
+    }
+
+    this.renderPresetRules(containerEl);
+    this.renderWritingGoals(containerEl);
+  }
+
+  // ── Writing goals ───────────────────────────────────────────────────────────
+
+  renderWritingGoals(containerEl: HTMLElement) {
+    const { settings } = this.plugin;
+
+    new Setting(containerEl).setName(t.settingsGoalsHeading).setHeading();
+
+    new Setting(containerEl)
+      .setName(t.settingsDailyGoalName)
+      .setDesc(t.settingsDailyGoalDesc)
+      .addText((text) => {
+        text.inputEl.type = "number";
+        text.inputEl.min = "0";
+        text
+          .setPlaceholder("0")
+          .setValue(settings.dailyGoal > 0 ? String(settings.dailyGoal) : "")
+          .onChange(async (value) => {
+            const goal = parseInt(value);
+            settings.dailyGoal = Number.isFinite(goal) && goal > 0 ? goal : 0;
+            await this.save();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName(t.settingsDeadlineKeyName)
+      .setDesc(t.settingsDeadlineKeyDesc)
+      .addText((text) =>
+        text
+          .setPlaceholder(DEFAULT_SETTINGS.deadlineFrontmatterKey)
+          .setValue(settings.deadlineFrontmatterKey)
+          .onChange(async (value) => {
+            settings.deadlineFrontmatterKey = value.trim() || DEFAULT_SETTINGS.deadlineFrontmatterKey;
+            await this.save();
+          })
+      );
+  }
+
+  // ── Automatic preset selection ──────────────────────────────────────────────
+
+  renderPresetRules(containerEl: HTMLElement) {
+    const { settings } = this.plugin;
+
+    new Setting(containerEl).setName(t.settingsAutoPresetHeading).setHeading();
+    containerEl.createEl("p", { text: t.settingsAutoPresetDescription, cls: "wcp-section-note" });
+
+    new Setting(containerEl)
+      .setName(t.settingsFrontmatterKeyName)
+      .setDesc(t.settingsFrontmatterKeyDesc)
+      .addText((text) =>
+        text
+          .setPlaceholder(DEFAULT_SETTINGS.presetFrontmatterKey)
+          .setValue(settings.presetFrontmatterKey)
+          .onChange(async (value) => {
+            settings.presetFrontmatterKey = value.trim();
+            await this.save();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(t.settingsRulesName)
+      .setDesc(t.settingsRulesDesc)
+      .addButton((btn: ButtonComponent) =>
+        btn.setButtonText(t.settingsAddRule).onClick(async () => {
+          settings.presetRules = [
+            ...settings.presetRules,
+            { type: "folder", pattern: "", presetId: settings.presets[0]?.id ?? "" },
+          ];
+          await this.save();
+          this.display();
+        })
+      );
+
+    settings.presetRules.forEach((rule, i) => {
+      const row = new Setting(containerEl).setClass("wcp-rule-row");
+      row.nameEl.setText(t.ruleNumber(i + 1));
+
+      row
+        .addDropdown((dd) => {
+          for (const type of Object.keys(t.ruleTypes) as PresetRuleType[]) dd.addOption(type, t.ruleTypes[type]);
+          dd.setValue(rule.type).onChange(async (value) => {
+            rule.type = value as PresetRuleType;
+            await this.save();
+          });
+        })
+        .addText((text) =>
+          text
+            .setPlaceholder(t.rulePatternPlaceholder)
+            .setValue(rule.pattern)
+            .onChange(async (value) => {
+              rule.pattern = value;
+              await this.save();
+            })
+        )
+        .addDropdown((dd) => {
+          for (const preset of settings.presets) dd.addOption(preset.id, preset.name);
+          dd.setValue(rule.presetId).onChange(async (value) => {
+            rule.presetId = value;
+            await this.save();
+          });
+        })
+        .addExtraButton((btn) =>
+          btn.setIcon("arrow-up").setTooltip(t.ruleMoveUp).setDisabled(i === 0).onClick(async () => {
+            this.moveRule(i, i - 1);
+            await this.save();
+            this.display();
+          })
+        )
+        .addExtraButton((btn) =>
+          btn.setIcon("arrow-down").setTooltip(t.ruleMoveDown).setDisabled(i === settings.presetRules.length - 1).onClick(async () => {
+            this.moveRule(i, i + 1);
+            await this.save();
+            this.display();
+          })
+        )
+        .addExtraButton((btn) =>
+          btn.setIcon("trash-2").setTooltip(t.ruleDelete).onClick(async () => {
+            settings.presetRules = settings.presetRules.filter((r) => r !== rule);
+            await this.save();
+            this.display();
+          })
+        );
+    });
+  }
+
+  async copyPresets(presets: Preset[]) {
+    await navigator.clipboard.writeText(this.plugin.exportPresets(presets));
+    new Notice(t.reportCopied);
+  }
+
+  savePresetsFile() {
+    const blob = new Blob([this.plugin.exportPresets(this.plugin.settings.presets)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.body.createEl("a", { attr: { href: url, download: PRESET_EXPORT_FILE } });
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+  }
+
+  /** Moves a preset to another one's place; the order is also the status bar cycle order. */
+  movePreset(id: string, beforeId: string) {
+    const presets = [...this.plugin.settings.presets];
+    const from = presets.findIndex((p) => p.id === id);
+    const to = presets.findIndex((p) => p.id === beforeId);
+    if (from < 0 || to < 0 || from === to) return;
+    const [preset] = presets.splice(from, 1);
+    presets.splice(to, 0, preset);
+    this.plugin.settings.presets = presets;
+  }
+
+  moveRule(from: number, to: number) {
+    const rules = [...this.plugin.settings.presetRules];
+    if (to < 0 || to >= rules.length) return;
+    const [rule] = rules.splice(from, 1);
+    rules.splice(to, 0, rule);
+    this.plugin.settings.presetRules = rules;
+  }
+
+  renderPreset(containerEl: HTMLElement, preset: Preset) {
+    const isActive = preset.id === this.plugin.settings.activePresetId;
+    const card = containerEl.createDiv({ cls: `wcp-preset-card${isActive ? " is-active" : ""}` });
+
+    // ── Header ──────────────────────────────────────────────────────────────
+    const header = card.createDiv({ cls: "wcp-preset-header" });
+
+    // Only the handle starts a drag, so that text in the card can still be selected
+    const handle = header.createDiv({ cls: "wcp-drag-handle" });
+    setIcon(handle, "grip-vertical");
+    setTooltip(handle, t.presetDragTooltip, { placement: "top" });
+    handle.addEventListener("mousedown", () => { card.draggable = true; });
+    handle.addEventListener("mouseup", () => { card.draggable = false; });
+    card.addEventListener("dragstart", (e) => {
+      this.draggedPresetId = preset.id;
+      e.dataTransfer?.setData("text/plain", preset.name);
+      card.addClass("is-dragging");
+    });
+    card.addEventListener("dragend", () => {
+      card.draggable = false;
+      card.removeClass("is-dragging");
+      this.draggedPresetId = null;
+    });
+    card.addEventListener("dragover", (e) => {
+      if (!this.draggedPresetId || this.draggedPresetId === preset.id) return;
+      e.preventDefault();
+      card.addClass("is-drop-target");
+    });
+    card.addEventListener("dragleave", (e) => {
+      if (!card.contains(e.relatedTarget as Node | null)) card.removeClass("is-drop-target");
+    });
+    card.addEventListener("drop", async (e) => {
+      e.preventDefault();
+      card.removeClass("is-drop-target");
+      if (!this.draggedPresetId) return;
+      this.movePreset(this.draggedPresetId, preset.id);
+      await this.save();
+      this.display();
+    });
+
+    if (isActive) header.createEl("span", { text: t.badgeActive, cls: "wcp-active-badge" });
+
+    const nameInput = header.createEl("input", { type: "text" });
+    nameInput.value = preset.name;
+    nameInput.placeholder = t.inputNamePlaceholder;
+    nameInput.addClass("wcp-name-input");
+    nameInput.addEventListener("change", async () => {
+      preset.name = nameInput.value.trim() || t.unnamedPreset;
+      await this.save();
+    });
+
+    if (!isActive) {
+      const actBtn = header.createEl("button", { text: t.btnSetActive, cls: "wcp-btn" });
+      actBtn.addEventListener("click", async () => {
+        await this.plugin.setDefaultPreset(preset.id);
+        this.display();
+      });
+    }
+
+    const dupBtn = header.createEl("button", { cls: "wcp-btn wcp-btn-icon" });
+    setIcon(dupBtn, "copy-plus");
+    setTooltip(dupBtn, t.btnDuplicateTooltip, { placement: "top" });
+    dupBtn.addEventListener("click", async () => {
+      this.plugin.duplicatePreset(preset);
+      await this.save();
+      this.display();
+    });
+
+    const exportBtn = header.createEl("button", { cls: "wcp-btn wcp-btn-icon" });
+    setIcon(exportBtn, "share");
+    setTooltip(exportBtn, t.btnExportTooltip, { placement: "top" });
+    exportBtn.addEventListener("click", () => this.copyPresets([preset]));
+
+    const delBtn = header.createEl("button");
+    setIcon(delBtn, "trash-2");
+    setTooltip(delBtn, t.btnDeleteTooltip, { placement: "top" });
+    delBtn.addClass("wcp-btn", "wcp-btn-icon", "wcp-btn-delete");
+    delBtn.addEventListener("click", () => {
+      new DeleteConfirmModal(this.plugin.app, preset.name, async () => {
+        this.plugin.removePresetCommand(preset);
+        this.plugin.settings.presets = this.plugin.settings.presets.filter((p) => p.id !== preset.id);
+        this.plugin.settings.presetRules = this.plugin.settings.presetRules.filter((r) => r.presetId !== preset.id);
+        if (this.plugin.settings.activePresetId === preset.id) {
+          this.plugin.settings.activePresetId = this.plugin.settings.presets[0]?.id ?? "";
+        }
+        await this.save();
+        this.display();
+      }).open();
+    });
+
+    // ── Pages and words per minute ──────────────────────────────────────────
+    this.renderSelectRow(card, t.pageModelLabel, PAGE_MODELS, t.pageModels, preset.pageModel,
+      async (value) => { preset.pageModel = value; await this.save(); this.display(); });
+    if (preset.pageModel === "words") {
+      this.renderNumberRow(card, preset, "wordsPerPage", t.wppLabel, t.wppSuffix);
+    } else if (preset.pageModel === "layout") {
+      this.renderNumberRow(card, preset, "linesPerPage", t.wppLabel, t.linesPerPageSuffix);
+      this.renderNumberRow(card, preset, "charsPerLine", t.charsPerLineLabel, t.charsPerLineSuffix);
+    } else {
+      this.renderNumberRow(card, preset, "charsPerPage", t.wppLabel, t.charsPerPageSuffix);
+    }
+    this.renderNumberRow(card, preset, "readingWpm", t.readingWpmLabel, t.wpmSuffix);
+    this.renderNumberRow(card, preset, "speakingWpm", t.speakingWpmLabel, t.wpmSuffix);
+
+    // ── Word and character counting ─────────────────────────────────────────
+    this.renderSelectRow(card, t.segmentationLabel, WORD_SEGMENTATIONS, t.segmentationModes, preset.wordSegmentation,
+      async (value) => { preset.wordSegmentation = value; await this.save(); });
+    this.renderSelectRow(card, t.charCountingLabel, CHAR_COUNTINGS, t.charCountingModes, preset.charCounting,
+      async (value) => { preset.charCounting = value; await this.save(); });
+    this.renderSelectRow(card, t.charProfileLabel, Object.keys(CHAR_PROFILES) as CharProfile[], t.charProfiles, preset.charProfile,
+      async (value) => { preset.charProfile = value; await this.save(); });
+
+    // ── Status bar metrics ──────────────────────────────────────────────────
+    this.sectionHeader(card, t.sectionStatusBar);
+    card.createEl("p", { text: t.sectionStatusBarNote, cls: "wcp-section-note" });
+
+    const templateRow = card.createDiv({ cls: "wcp-wpp-row" });
+    templateRow.createEl("span", { text: t.statusTemplateLabel, cls: "wcp-wpp-label" });
+    const templateInput = templateRow.createEl("input", { type: "text", cls: "wcp-headings-input wcp-template-input" });
+    templateInput.value = preset.statusTemplate;
+    templateInput.placeholder = t.statusTemplatePlaceholder;
+    setTooltip(templateInput, t.statusTemplateHint, { placement: "top" });
+    templateInput.addEventListener("change", async () => {
+      preset.statusTemplate = templateInput.value;
+      await this.save();
+    });
+
+    const visGrid = card.createDiv({ cls: "wcp-toggle-grid" });
+    for (const key of Object.keys(t.toggles) as (keyof typeof t.toggles)[]) {
+      this.renderToggleChip(visGrid, preset, key as keyof Preset, t.toggles[key].label, t.toggles[key].hint);
+    }
+    for (const counter of preset.customCounters) {
+      this.renderChip(visGrid, counter.label, t.customCounterToggleHint, counter.show,
+        async (value) => { counter.show = value; await this.save(); });
+    }
+
+    // ── Targets ─────────────────────────────────────────────────────────────
+    this.sectionHeader(card, t.sectionTargets);
+    card.createEl("p", { text: t.sectionTargetsNote, cls: "wcp-section-note" });
+
+    const targetGrid = card.createDiv({ cls: "wcp-target-grid" });
+    for (const metric of TARGET_METRICS) {
+      this.renderTargetRow(targetGrid, preset, metric);
     }
 
     // ── Word count options ──────────────────────────────────────────────────
     this.sectionHeader(card, t.sectionWordCountOptions);
     card.createEl("p", { text: t.sectionWordCountOptionsNote, cls: "wcp-section-note" });
 
-    const wcGrid = card.createDiv({ cls: "wcp-toggle-grid-wide" });
-    for (const key of Object.keys(t.wordCountOptions) as (keyof typeof t.wordCountOptions)[]) {
-      this.renderToggleChip(wcGrid, preset, key as keyof Preset, t.wordCountOptions[key].label, t.wordCountOptions[key].hint);
+    const wcGrid = card.createDiv({ cls: "wcp-toggle-grid-wide" });
+    for (const key of Object.keys(t.wordCountOptions) as (keyof typeof t.wordCountOptions)[]) {
+      this.renderToggleChip(wcGrid, preset, key as keyof Preset, t.wordCountOptions[key].label, t.wordCountOptions[key].hint);
+    }
+
+    const headingsRow = card.createDiv({ cls: "wcp-wpp-row" });
+    headingsRow.createEl("span", { text: t.excludedHeadingsLabel, cls: "wcp-wpp-label" });
+    const headingsInput = headingsRow.createEl("input", { type: "text", cls: "wcp-headings-input" });
+    headingsInput.value = preset.excludedHeadings.join(", ");
+    headingsInput.placeholder = t.excludedHeadingsPlaceholder;
+    setTooltip(headingsInput, t.excludedHeadingsHint, { placement: "top" });
+    headingsInput.addEventListener("change", async () => {
+      preset.excludedHeadings = headingsInput.value.split(",").map((h) => h.trim()).filter(Boolean);
+      await this.save();
+    });
+
+    this.renderPreview(card, preset);
+
+    // ── Custom counters ─────────────────────────────────────────────────────
+    this.sectionHeader(card, t.sectionCustomCounters);
+    card.createEl("p", { text: t.sectionCustomCountersNote, cls: "wcp-section-note" });
+
+    for (const counter of preset.customCounters) {
+      this.renderCustomCounter(card, preset, counter);
+    }
+    const addCounter = card.createEl("button", { text: t.customCounterAdd, cls: "wcp-btn" });
+    addCounter.addEventListener("click", async () => {
+      preset.customCounters.push({
+        id: randomId(),
+        label: t.customCounterName(preset.customCounters.length + 1),
+        matcher: "regex",
+        pattern: "",
+        source: "text",
+        unique: false,
+        show: true,
+      });
+      await this.save();
+      this.display();
+    });
+
+    // ── Frontmatter ─────────────────────────────────────────────────────────
+    this.sectionHeader(card, t.sectionFrontmatter);
+    card.createEl("p", { text: t.sectionFrontmatterNote, cls: "wcp-section-note" });
+
+    const fmGrid = card.createDiv({ cls: "wcp-toggle-grid-wide" });
+    this.renderToggleChip(fmGrid, preset, "writeFrontmatter", t.writeFrontmatter.label, t.writeFrontmatter.hint);
+
+    const propertyGrid = card.createDiv({ cls: "wcp-target-grid" });
+    for (const key of METRIC_KEYS) {
+      const row = propertyGrid.createDiv({ cls: "wcp-target-row" });
+      row.createEl("span", { text: t.metricLabels[key], cls: "wcp-toggle-label" });
+      const input = row.createEl("input", { type: "text", cls: "wcp-property-input" });
+      input.value = preset.frontmatterProperties[key] ?? "";
+      input.placeholder = t.frontmatterPropertyPlaceholder;
+      input.addEventListener("change", async () => {
+        const property = input.value.trim();
+        if (property) preset.frontmatterProperties[key] = property;
+        else delete preset.frontmatterProperties[key];
+        await this.save();
+      });
+    }
+
+    for (const bound of ["frontmatterInclude", "frontmatterExclude"] as const) {
+      const row = card.createDiv({ cls: "wcp-wpp-row" });
+      row.createEl("span", { text: t.frontmatterGlobs[bound], cls: "wcp-wpp-label" });
+      const input = row.createEl("input", { type: "text", cls: "wcp-headings-input" });
+      input.value = preset[bound];
+      input.placeholder = bound === "frontmatterInclude" ? "**" : t.frontmatterExcludePlaceholder;
+      setTooltip(input, t.frontmatterGlobsHint, { placement: "top" });
+      input.addEventListener("change", async () => {
+        preset[bound] = input.value.trim();
+        await this.save();
+      });
+    }
+  }
+
+  renderCustomCounter(parent: HTMLElement, preset: Preset, counter: CustomCounter) {
+    const container = parent.createDiv({ cls: "wcp-counter" });
+    const row = container.createDiv({ cls: "wcp-counter-row" });
+
+    const labelInput = row.createEl("input", { type: "text", cls: "wcp-counter-label" });
+    labelInput.value = counter.label;
+    labelInput.placeholder = t.customCounterLabelPlaceholder;
+    labelInput.addEventListener("change", async () => {
+      counter.label = labelInput.value.trim() || t.customCounterName(preset.customCounters.indexOf(counter) + 1);
+      await this.save();
+      this.display();
+    });
+
+    const matcher = row.createEl("select", { cls: "dropdown" });
+    for (const m of COUNTER_MATCHERS) matcher.createEl("option", { value: m, text: t.counterMatchers[m].label });
+    matcher.value = counter.matcher;
+    setTooltip(matcher, t.counterMatchers[counter.matcher].hint, { placement: "top" });
+    matcher.addEventListener("change", async () => {
+      counter.matcher = matcher.value as CustomMatcher;
+      await this.save();
+      this.display();
+    });
+
+    const error = container.createDiv({ cls: "wcp-counter-error" });
+    if (counter.matcher === "regex") {
+      const patternInput = row.createEl("input", { type: "text", cls: "wcp-counter-pattern" });
+      patternInput.value = counter.pattern;
+      patternInput.placeholder = t.customCounterPatternPlaceholder;
+      const validate = () => {
+        try {
+          if (patternInput.value) parseCounterPattern(patternInput.value);
+          error.setText("");
+          return true;
+        } catch (e) {
+          error.setText(t.customCounterInvalid(e instanceof Error ? e.message : String(e)));
+          return false;
+        }
+      };
+      validate();
+      patternInput.addEventListener("input", validate);
+      patternInput.addEventListener("change", async () => {
+        counter.pattern = patternInput.value;
+        await this.save();
+      });
+
+      const source = row.createEl("select", { cls: "dropdown" });
+      for (const s of ["text", "raw"] as CounterSource[]) source.createEl("option", { value: s, text: t.counterSources[s].label });
+      source.value = counter.source;
+      setTooltip(source, t.counterSources[counter.source].hint, { placement: "top" });
+      source.addEventListener("change", async () => {
+        counter.source = source.value as CounterSource;
+        setTooltip(source, t.counterSources[counter.source].hint, { placement: "top" });
+        await this.save();
+      });
+    }
+
+    this.renderChip(row, t.customCounterUnique.label, t.customCounterUnique.hint, counter.unique,
+      async (value) => { counter.unique = value; await this.save(); });
+
+    const delBtn = row.createEl("button");
+    setIcon(delBtn, "trash-2");
+    setTooltip(delBtn, t.customCounterDelete, { placement: "top" });
+    delBtn.addClass("wcp-btn", "wcp-btn-delete");
+    delBtn.addEventListener("click", async () => {
+      preset.customCounters = preset.customCounters.filter((c) => c !== counter);
+      await this.save();
+      this.display();
+    });
+  }
+
+  // ── Preview ───────────────────────────────────────────────────────────────
+
+  /** Collapsible pane that counts a sample text or the current note with the preset and shows what is counted. */
+  renderPreview(parent: HTMLElement, preset: Preset) {
+    const details = parent.createEl("details", { cls: "wcp-preview" });
+    details.open = this.openPreviews.has(preset.id);
+    details.createEl("summary", { text: t.previewTitle, cls: "wcp-section-header" });
+
+    let sample: HTMLTextAreaElement;
+    this.renderSelectRow(details, t.previewSourceLabel, PREVIEW_SOURCES, t.previewSources, this.previewSource(preset),
+      async (value) => {
+        this.previewSources.set(preset.id, value);
+        sample.toggle(value === "sample");
+        refresh();
+      });
+    sample = details.createEl("textarea", { cls: "wcp-preview-sample" });
+    sample.value = this.previewSample;
+    sample.toggle(this.previewSource(preset) === "sample");
+
+    const statusEl = details.createDiv({ cls: "wcp-preview-status" });
+    const textEl = details.createDiv({ cls: "wcp-preview-text" });
+    const legend = details.createDiv({ cls: "wcp-preview-legend" });
+    legend.createSpan({ text: t.previewKept });
+    legend.createSpan({ text: t.previewRemoved, cls: "wcp-preview-removed" });
+    legend.createSpan({ text: t.previewReplaced, cls: "wcp-preview-replaced" });
+
+    const refresh = () => {
+      if (details.open) this.renderPreviewResult(statusEl, textEl, preset);
+    };
+    // The sample is shared: the card being edited follows every keystroke, the others the finished edit
+    sample.addEventListener("input", () => {
+      this.previewSample = sample.value;
+      refresh();
+    });
+    sample.addEventListener("change", () => {
+      for (const other of this.previewRefreshers) other();
+    });
+    details.addEventListener("toggle", () => {
+      if (details.open) this.openPreviews.add(preset.id);
+      else this.openPreviews.delete(preset.id);
+      refresh();
+    });
+    this.previewRefreshers.push(refresh);
+    refresh();
+  }
+
+  private previewSource(preset: Preset): PreviewSource {
+    return this.previewSources.get(preset.id) ?? "sample";
+  }
+
+  /** Shows the status bar the text would get and the text with what is left out or replaced marked. */
+  private renderPreviewResult(statusEl: HTMLElement, textEl: HTMLElement, preset: Preset) {
+    const { engine, settings } = this.plugin;
+    textEl.empty();
+
+    let raw = this.previewSample;
+    let path: string | undefined;
+    if (this.previewSource(preset) === "note") {
+      const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+      if (!view?.file) { statusEl.setText(t.previewNoNote); return; }
+      raw = view.getViewData();
+      path = view.file.path;
+    }
+
+    const metrics = engine.computeMetrics(raw, preset, path ? this.plugin.embedContext(path) : undefined);
+    statusEl.setText(this.plugin.buildStatusText(preset, metrics, settings.separator) || t.statusNoMetrics);
+
+    const filtered = engine.filterSpans(tokenize(raw), preset, undefined, path ? this.plugin.embedContext(path) : undefined);
+    let shown = 0;
+    for (const { span, text, embed } of filtered) {
+      if (shown > PREVIEW_CHARS) { textEl.appendText(t.previewTruncated); break; }
+      shown += span.text.length;
+      if (embed) {
+        // Text of an embedded note, counted in place of the embed
+        if (text) textEl.createSpan({ text, cls: "wcp-preview-replaced" });
+      } else if (text === span.text) {
+        textEl.appendText(text);
+      } else if (!text) {
+        textEl.createSpan({ text: span.text, cls: "wcp-preview-removed" });
+      } else {
+        const el = textEl.createSpan({ text, cls: "wcp-preview-replaced" });
+        setTooltip(el, t.previewOriginal(span.text), { placement: "top" });
+      }
     }
   }
 
@@ -504,19 +2326,87 @@ class WordCountSettingTab extends PluginSettingTab {
     parent.createEl("p", { text, cls: "wcp-section-header" });
   }
 
+  renderSelectRow<T extends string>(
+    parent: HTMLElement,
+    label: string,
+    values: T[],
+    texts: Record<T, { label: string; hint: string }>,
+    value: T,
+    onChange: (value: T) => Promise<void>,
+  ) {
+    const row = parent.createDiv({ cls: "wcp-wpp-row" });
+    row.createEl("span", { text: label, cls: "wcp-wpp-label" });
+    const select = row.createEl("select", { cls: "dropdown" });
+    for (const v of values) select.createEl("option", { value: v, text: texts[v].label });
+    select.value = value;
+    setTooltip(select, texts[value].hint, { placement: "top" });
+    select.addEventListener("change", async () => {
+      const selected = select.value as T;
+      setTooltip(select, texts[selected].hint, { placement: "top" });
+      await onChange(selected);
+    });
+  }
+
+  renderNumberRow(
+    parent: HTMLElement,
+    preset: Preset,
+    key: "wordsPerPage" | "charsPerPage" | "linesPerPage" | "charsPerLine" | "readingWpm" | "speakingWpm",
+    label: string,
+    suffix: string,
+  ) {
+    const row = parent.createDiv({ cls: "wcp-wpp-row" });
+    row.createEl("span", { text: label, cls: "wcp-wpp-label" });
+
+    const input = row.createEl("input", { type: "number" });
+    input.value = String(preset[key]);
+    input.min = "1";
+    input.addClass("wcp-wpp-input");
+    input.addEventListener("change", async () => {
+      const n = parseInt(input.value);
+      if (!isNaN(n) && n > 0) { preset[key] = n; await this.save(); }
+    });
+    row.createEl("span", { text: suffix, cls: "wcp-wpp-suffix" });
+  }
+
+  renderTargetRow(parent: HTMLElement, preset: Preset, metric: TargetMetric) {
+    const row = parent.createDiv({ cls: "wcp-target-row" });
+    row.createEl("span", { text: t.targetLabels[metric], cls: "wcp-toggle-label" });
+    setTooltip(row, t.targetHint(TARGET_FRONTMATTER_KEYS[metric]), { placement: "top" });
+
+    for (const bound of ["min", "max"] as const) {
+      const input = row.createEl("input", { type: "number", cls: "wcp-target-input" });
+      input.min = "0";
+      input.step = metric === "pages" ? "0.1" : "1";
+      input.placeholder = bound === "min" ? t.targetMinPlaceholder : t.targetMaxPlaceholder;
+      input.value = preset.targets[metric]?.[bound]?.toString() ?? "";
+      input.addEventListener("change", async () => {
+        const n = parseFloat(input.value);
+        const target: MetricTarget = { ...preset.targets[metric], [bound]: isFinite(n) && n > 0 ? n : undefined };
+        if (target.min === undefined && target.max === undefined) delete preset.targets[metric];
+        else preset.targets[metric] = target;
+        await this.save();
+      });
+    }
+  }
+
   renderToggleChip(parent: HTMLElement, preset: Preset, key: keyof Preset, label: string, hint?: string) {
+    this.renderChip(parent, label, hint, preset[key] as boolean,
+      async (value) => { (preset[key] as boolean) = value; await this.save(); });
+  }
+
+  renderChip(parent: HTMLElement, label: string, hint: string | undefined, value: boolean, onChange: (value: boolean) => Promise<void>) {
     const row = parent.createDiv({ cls: "wcp-toggle-chip" });
     if (hint) setTooltip(row, hint, { placement: "top" });
 
     row.createEl("span", { text: label, cls: "wcp-toggle-label" });
 
     const toggle = row.createDiv({ cls: "checkbox-container" });
-    if (preset[key]) toggle.addClass("is-enabled");
+    if (value) toggle.addClass("is-enabled");
 
     row.addEventListener("click", async () => {
-      (preset[key] as boolean) = !(preset[key] as boolean);
-      toggle.toggleClass("is-enabled", preset[key] as boolean);
-      await this.save();
+      value = !value;
+      toggle.toggleClass("is-enabled", value);
+      await onChange(value);
     });
   }
 }
@@ -555,3 +2445,622 @@ class DeleteConfirmModal extends Modal {
     this.contentEl.empty();
   }
 }
+
+// ── Import presets modal ──────────────────────────────────────────────────────
+
+class ImportPresetsModal extends Modal {
+  private onImport: (presets: Partial<Preset>[], mode: ImportMode) => Promise<void>;
+
+  constructor(app: App, onImport: (presets: Partial<Preset>[], mode: ImportMode) => Promise<void>) {
+    super(app);
+    this.onImport = onImport;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.createEl("h3", { text: t.importTitle });
+    contentEl.createEl("p", { text: t.importDescription, cls: "wcp-section-note" });
+
+    const input = contentEl.createEl("textarea", { cls: "wcp-import-input" });
+    input.placeholder = t.importPlaceholder;
+    const error = contentEl.createEl("p", { cls: "wcp-import-error" });
+
+    const fileInput = contentEl.createEl("input", { type: "file", attr: { accept: ".json,application/json", hidden: "" } });
+    fileInput.addEventListener("change", async () => {
+      const file = fileInput.files?.[0];
+      if (file) input.value = await file.text();
+    });
+
+    const btnRow = contentEl.createDiv({ cls: "wcp-modal-buttons" });
+    btnRow.createEl("button", { text: t.importLoadFile }).addEventListener("click", () => fileInput.click());
+
+    const submit = async (mode: ImportMode) => {
+      let presets: Partial<Preset>[];
+      try {
+        presets = parsePresets(input.value, t);
+      } catch (e) {
+        error.setText((e as Error).message);
+        return;
+      }
+      await this.onImport(presets, mode);
+      new Notice(t.importDone(presets.length));
+      this.close();
+    };
+    const merge = btnRow.createEl("button", { text: t.importMerge, cls: "mod-cta" });
+    setTooltip(merge, t.importMergeHint, { placement: "top" });
+    merge.addEventListener("click", () => submit("add"));
+    const update = btnRow.createEl("button", { text: t.importUpdate });
+    setTooltip(update, t.importUpdateHint, { placement: "top" });
+    update.addEventListener("click", () => submit("update"));
+    const replace = btnRow.createEl("button", { text: t.importReplace, cls: "mod-warning" });
+    setTooltip(replace, t.importReplaceHint, { placement: "top" });
+    replace.addEventListener("click", () => submit("replace"));
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
+
+// ── Folder picker ─────────────────────────────────────────────────────────────
+
+class FolderSuggestModal extends FuzzySuggestModal<TFolder> {
+  private onChoose: (folder: TFolder) => void;
+
+  constructor(app: App, onChoose: (folder: TFolder) => void) {
+    super(app);
+    this.onChoose = onChoose;
+    this.setPlaceholder(t.folderSuggestPlaceholder);
+  }
+
+  getItems(): TFolder[] {
+    return this.app.vault.getAllLoadedFiles().filter((f): f is TFolder => f instanceof TFolder);
+  }
+
+  getItemText(folder: TFolder): string {
+    return folder.isRoot() ? "/" : folder.path;
+  }
+
+  onChooseItem(folder: TFolder) {
+    this.onChoose(folder);
+  }
+}
+
+// ── Folder report ─────────────────────────────────────────────────────────────
+
+type ReportColumn = "path" | MetricKey;
+
+class FolderReportModal extends Modal {
+  private plugin: WordCountPlugin;
+  private folder: TFolder;
+  private presetId: string;
+  private include = "**";
+  private exclude = "";
+  private rows: FileMetrics[] = [];
+  private total: Metrics | undefined;
+  private sortKey: ReportColumn = "path";
+  private sortAsc = true;
+  private summaryEl: HTMLElement;
+  private tableEl: HTMLElement;
+  // Guards against results of an outdated run overwriting a newer one
+  private run = 0;
+
+  constructor(plugin: WordCountPlugin, folder: TFolder) {
+    super(plugin.app);
+    this.plugin = plugin;
+    this.folder = folder;
+    this.presetId = plugin.resolvePreset(plugin.app.workspace.getActiveFile())?.preset.id ?? "";
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    this.modalEl.addClass("wcp-report-modal");
+    contentEl.createEl("h3", { text: t.reportTitle(this.folder.isRoot() ? "/" : this.folder.path) });
+
+    const recount = debounce(() => this.recount(), 400, true);
+
+    new Setting(contentEl).setName(t.reportPreset).addDropdown((dd) => {
+      for (const preset of this.plugin.settings.presets) dd.addOption(preset.id, preset.name);
+      dd.setValue(this.presetId).onChange((value) => {
+        this.presetId = value;
+        this.recount();
+      });
+    });
+    new Setting(contentEl).setName(t.reportInclude).setDesc(t.reportGlobDesc).addText((text) =>
+      text.setPlaceholder("**").setValue(this.include).onChange((value) => {
+        this.include = value;
+        recount();
+      })
+    );
+    new Setting(contentEl).setName(t.reportExclude).setDesc(t.reportGlobDesc).addText((text) =>
+      text.setPlaceholder("Archive/**, *.excalidraw.md").setValue(this.exclude).onChange((value) => {
+        this.exclude = value;
+        recount();
+      })
+    );
+
+    this.summaryEl = contentEl.createEl("p", { cls: "wcp-section-note" });
+    this.tableEl = contentEl.createDiv({ cls: "wcp-report-table" });
+
+    const btnRow = contentEl.createDiv({ cls: "wcp-modal-buttons" });
+    btnRow.createEl("button", { text: t.reportCopyCsv })
+      .addEventListener("click", () => this.copy(this.toCsv()));
+    btnRow.createEl("button", { text: t.reportCopyMarkdown })
+      .addEventListener("click", () => this.copy(markdownTable(this.tableRows())));
+    btnRow.createEl("button", { text: t.reportCompare })
+      .addEventListener("click", () => this.plugin.openFolderComparison(this.folder, this.include, this.exclude));
+
+    this.recount();
+  }
+
+  onClose() {
+    this.run++;
+    this.contentEl.empty();
+  }
+
+  private get preset(): Preset | undefined {
+    return this.plugin.settings.presets.find((p) => p.id === this.presetId);
+  }
+
+  private async recount() {
+    const preset = this.preset;
+    if (!preset) return;
+    const run = ++this.run;
+    const files = this.plugin.folderFiles(this.folder, this.include, this.exclude);
+    this.summaryEl.setText(t.reportCounting(files.length));
+
+    const rows: FileMetrics[] = [];
+    for (const file of files) {
+      const metrics = await this.plugin.countFile(file, preset);
+      if (run !== this.run) return;
+      rows.push({ file, metrics });
+    }
+
+    this.rows = rows;
+    this.total = this.plugin.engine.sumMetrics(rows.map((r) => r.metrics), preset);
+    this.summaryEl.setText(t.reportSummary(rows.length, preset.name));
+    this.renderTable();
+  }
+
+  private sortedRows(): FileMetrics[] {
+    const key = this.sortKey;
+    const value = (r: FileMetrics) => (key === "path" ? r.file.path : parseFloat(String(r.metrics[key])));
+    const dir = this.sortAsc ? 1 : -1;
+    return [...this.rows].sort((a, b) => {
+      const va = value(a), vb = value(b);
+      return (typeof va === "string" ? va.localeCompare(vb as string) : va - (vb as number)) * dir;
+    });
+  }
+
+  private renderTable() {
+    this.tableEl.empty();
+    const table = this.tableEl.createEl("table");
+    const head = table.createEl("thead").createEl("tr");
+
+    for (const column of ["path", ...METRIC_KEYS] as ReportColumn[]) {
+      const label = column === "path" ? t.reportFile : t.metricLabels[column];
+      const arrow = column === this.sortKey ? (this.sortAsc ? " ↑" : " ↓") : "";
+      const th = head.createEl("th", { text: label + arrow });
+      th.addEventListener("click", () => {
+        this.sortAsc = column === this.sortKey ? !this.sortAsc : column === "path";
+        this.sortKey = column;
+        this.renderTable();
+      });
+    }
+
+    const body = table.createEl("tbody");
+    for (const { file, metrics } of this.sortedRows()) {
+      const tr = body.createEl("tr");
+      const link = tr.createEl("td").createEl("a", { text: file.path, cls: "internal-link" });
+      link.addEventListener("click", () => {
+        this.app.workspace.getLeaf(false).openFile(file);
+        this.close();
+      });
+      for (const key of METRIC_KEYS) tr.createEl("td", { text: String(metrics[key]) });
+    }
+
+    if (this.total) {
+      const tr = table.createEl("tfoot").createEl("tr");
+      tr.createEl("td", { text: t.reportTotal });
+      for (const key of METRIC_KEYS) tr.createEl("td", { text: String(this.total[key]) });
+    }
+  }
+
+  private tableRows(): string[][] {
+    const rows = this.sortedRows().map((r) => [r.file.path, ...METRIC_KEYS.map((k) => String(r.metrics[k]))]);
+    if (this.total) rows.push([t.reportTotal, ...METRIC_KEYS.map((k) => String(this.total![k]))]);
+    return [[t.reportFile, ...METRIC_KEYS.map((k) => t.metricLabels[k])], ...rows];
+  }
+
+  private toCsv(): string {
+    return this.tableRows().map((row) => row.map(csvField).join(",")).join("\n");
+  }
+
+  private async copy(text: string) {
+    await navigator.clipboard.writeText(text);
+    new Notice(t.reportCopied);
+  }
+}
+
+// ── Preset comparison ─────────────────────────────────────────────────────────
+
+/** What the preset comparison counts: a note, its selection or a folder. */
+interface ComparisonSource {
+  name: string;
+  count: (preset: Preset) => Promise<Metrics>;
+  targets: (preset: Preset) => Targets;
+  folder: TFolder;  // where "Save as note" creates the note
+  editor?: Editor;  // for "Insert at cursor", when the note is being edited
+}
+
+/** One column per preset, one row per metric. */
+class PresetComparisonModal extends Modal {
+  private plugin: WordCountPlugin;
+  private source: ComparisonSource;
+  private columns: { preset: Preset; metrics: Metrics; targets: Targets }[] = [];
+  private summaryEl: HTMLElement;
+  private tableEl: HTMLElement;
+  private closed = false;
+
+  constructor(plugin: WordCountPlugin, source: ComparisonSource) {
+    super(plugin.app);
+    this.plugin = plugin;
+    this.source = source;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    this.modalEl.addClass("wcp-report-modal");
+    this.titleEl.setText(t.compareTitle(this.source.name));
+
+    this.summaryEl = contentEl.createEl("p", { cls: "wcp-section-note" });
+    this.tableEl = contentEl.createDiv({ cls: "wcp-report-table wcp-compare-table" });
+
+    const btnRow = contentEl.createDiv({ cls: "wcp-modal-buttons" });
+    btnRow.createEl("button", { text: t.reportCopyMarkdown }).addEventListener("click", async () => {
+      await navigator.clipboard.writeText(markdownTable(this.tableRows()));
+      new Notice(t.reportCopied);
+    });
+    btnRow.createEl("button", { text: t.compareSaveNote }).addEventListener("click", () => this.saveAsNote());
+    const { editor } = this.source;
+    if (editor) {
+      btnRow.createEl("button", { text: t.compareInsert, cls: "mod-cta" }).addEventListener("click", () => {
+        editor.replaceRange(`\n${markdownTable(this.tableRows())}\n`, editor.getCursor("to"));
+        this.close();
+      });
+    }
+
+    this.recount();
+  }
+
+  onClose() {
+    this.closed = true;
+    this.contentEl.empty();
+  }
+
+  private async recount() {
+    const { presets } = this.plugin.settings;
+    this.summaryEl.setText(t.compareCounting(presets.length));
+    for (const preset of presets) {
+      const metrics = await this.source.count(preset);
+      if (this.closed) return;
+      this.columns.push({ preset, metrics, targets: this.source.targets(preset) });
+    }
+    this.summaryEl.setText(t.compareSummary);
+    this.renderTable();
+  }
+
+  private overTarget(metrics: Metrics, targets: Targets, key: MetricKey): boolean {
+    const target = targets[key as TargetMetric];
+    return !!target && targetState(parseFloat(String(metrics[key])), target) === "over";
+  }
+
+  private renderTable() {
+    this.tableEl.empty();
+    const table = this.tableEl.createEl("table");
+    const head = table.createEl("thead").createEl("tr");
+    head.createEl("th", { text: t.compareMetric });
+    for (const { preset, metrics, targets } of this.columns) {
+      const th = head.createEl("th", { text: preset.name });
+      if (METRIC_KEYS.some((key) => this.overTarget(metrics, targets, key))) th.addClass("wcp-target-over");
+    }
+
+    const body = table.createEl("tbody");
+    for (const key of METRIC_KEYS) {
+      const tr = body.createEl("tr");
+      tr.createEl("td", { text: t.metricLabels[key] });
+      for (const { metrics, targets } of this.columns) {
+        const td = tr.createEl("td", { text: String(metrics[key]) });
+        if (this.overTarget(metrics, targets, key)) td.addClass("wcp-target-over");
+      }
+    }
+  }
+
+  private tableRows(): string[][] {
+    return [
+      [t.compareMetric, ...this.columns.map((c) => c.preset.name)],
+      ...METRIC_KEYS.map((key) => [t.metricLabels[key], ...this.columns.map((c) => String(c.metrics[key]))]),
+    ];
+  }
+
+  private async saveAsNote() {
+    const { vault } = this.app;
+    const folder = this.source.folder.isRoot() ? "" : `${this.source.folder.path}/`;
+    const base = t.compareNoteName(this.source.name).replace(/[\\/:*?"<>|#^[\]]/g, " ").trim();
+    let path = `${folder}${base}.md`;
+    for (let n = 2; vault.getAbstractFileByPath(path); n++) path = `${folder}${base} ${n}.md`;
+
+    const file = await vault.create(path, `# ${t.compareTitle(this.source.name)}\n\n${markdownTable(this.tableRows())}\n`);
+    new Notice(t.compareSaved(file.path));
+    this.close();
+    await this.app.workspace.getLeaf(true).openFile(file);
+  }
+}
+
+// ── Citations ─────────────────────────────────────────────────────────────────
+
+class CitationsModal extends Modal {
+  private view: MarkdownView;
+  private citations: Map<string, number[]>;
+
+  constructor(plugin: WordCountPlugin, view: MarkdownView, citations: Map<string, number[]>) {
+    super(plugin.app);
+    this.view = view;
+    this.citations = citations;
+  }
+
+  onOpen() {
+    const { contentEl, titleEl } = this;
+    titleEl.setText(t.citationsTitle(this.view.file?.basename ?? ""));
+    contentEl.addClass("wcp-citations");
+
+    if (this.citations.size === 0) {
+      contentEl.createEl("p", { text: t.citationsEmpty, cls: "wcp-section-note" });
+      return;
+    }
+
+    const entries = [...this.citations].sort(([a, x], [b, y]) => y.length - x.length || a.localeCompare(b));
+    const total = entries.reduce((sum, [, offsets]) => sum + offsets.length, 0);
+    contentEl.createEl("p", { text: t.citationsSummary(total, entries.length), cls: "wcp-section-note" });
+
+    const { editor } = this.view;
+    for (const [key, offsets] of entries) {
+      const row = contentEl.createDiv({ cls: "wcp-citation-row" });
+      const keyEl = row.createSpan({ text: `@${key}`, cls: "wcp-citation-key" });
+      keyEl.addEventListener("click", () => this.jump(offsets[0]));
+      row.createSpan({ text: String(offsets.length), cls: "wcp-citation-count" });
+
+      const places = row.createDiv({ cls: "wcp-citation-places" });
+      for (const offset of offsets) {
+        const line = editor.offsetToPos(offset).line;
+        const place = places.createSpan({ text: t.citationsLine(line + 1), cls: "wcp-citation-place" });
+        place.addEventListener("click", () => this.jump(offset));
+      }
+    }
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  private jump(offset: number) {
+    const { editor, leaf } = this.view;
+    const pos = editor.offsetToPos(offset);
+    this.close();
+    editor.setCursor(pos);
+    editor.scrollIntoView({ from: pos, to: pos }, true);
+    this.app.workspace.setActiveLeaf(leaf, { focus: true });
+  }
+}
+
+// ── Section outline view ──────────────────────────────────────────────────────
+
+class SectionOutlineView extends ItemView {
+  private plugin: WordCountPlugin;
+  // The note being outlined; kept while the sidebar itself has focus
+  private markdownView: MarkdownView | null = null;
+
+  constructor(leaf: WorkspaceLeaf, plugin: WordCountPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType(): string {
+    return VIEW_TYPE_SECTIONS;
+  }
+
+  getDisplayText(): string {
+    return t.sectionsViewTitle;
+  }
+
+  getIcon(): string {
+    return "list-tree";
+  }
+
+  async onOpen() {
+    this.registerEvent(this.app.workspace.on("active-leaf-change", () => this.refresh()));
+    this.registerEvent(this.app.workspace.on("editor-change", () => this.refresh()));
+    this.registerEvent(this.app.metadataCache.on("changed", () => this.refresh()));
+    this.render();
+  }
+
+  refresh = debounce(() => this.render(), 300, true);
+
+  render() {
+    const active = this.app.workspace.getActiveViewOfType(MarkdownView);
+    if (active) this.markdownView = active;
+    const view = this.markdownView;
+
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("wcp-sections");
+
+    const preset = view?.file && this.plugin.resolvePreset(view.file)?.preset;
+    if (!view || !view.file || !preset) {
+      contentEl.createEl("p", { text: t.sectionsEmpty, cls: "wcp-section-note" });
+      return;
+    }
+
+    const sections = this.plugin.computeSections(view.editor.getValue(), preset, view.file);
+    if (sections.length === 0) {
+      contentEl.createEl("p", { text: t.sectionsNoHeadings, cls: "wcp-section-note" });
+      return;
+    }
+
+    const { separator } = this.plugin.settings;
+    for (const section of sections) {
+      const row = contentEl.createDiv({ cls: "wcp-section-row" });
+      row.style.setProperty("--wcp-level", String(Math.max(section.level - 1, 0)));
+      row.createDiv({ text: section.heading || t.sectionsPreamble, cls: "wcp-section-title" });
+
+      // The budget applies to the whole section, including subsections
+      const budget: Targets = section.budget ? { wordsWithSpaces: section.budget } : {};
+      const own = row.createDiv({ cls: "wcp-section-metrics" });
+      this.renderSegments(own, this.plugin.buildStatusSegments(preset, section.own, section.hasSubsections ? {} : budget), separator);
+      if (section.hasSubsections) {
+        const total = row.createDiv({ cls: "wcp-section-metrics wcp-section-total" });
+        setTooltip(total, t.sectionsTotalTooltip, { placement: "left" });
+        this.renderSegments(total, this.plugin.buildStatusSegments(preset, section.total, budget), separator);
+      }
+
+      row.addEventListener("click", () => {
+        const { editor } = view;
+        editor.setCursor({ line: section.line, ch: 0 });
+        editor.scrollIntoView({ from: { line: section.line, ch: 0 }, to: { line: section.line, ch: 0 } }, true);
+        this.app.workspace.setActiveLeaf(view.leaf, { focus: true });
+      });
+    }
+  }
+
+  private renderSegments(parent: HTMLElement, segments: StatusSegment[], separator: string) {
+    segments.forEach((segment, i) => {
+      if (i > 0 && !segment.glue) parent.createSpan({ text: separator });
+      const span = parent.createSpan({ text: segment.text });
+      if (segment.state) span.addClass(`wcp-target-${segment.state}`);
+      if (segment.icon) { span.addClass("wcp-status-icon"); setIcon(span, segment.icon); }
+    });
+  }
+}
+
+// ── Statistics view ───────────────────────────────────────────────────────────
+
+class StatisticsView extends ItemView {
+  private plugin: WordCountPlugin;
+  // The note whose history is shown; kept while the sidebar itself has focus
+  private file: TFile | null = null;
+
+  constructor(leaf: WorkspaceLeaf, plugin: WordCountPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType(): string {
+    return VIEW_TYPE_STATISTICS;
+  }
+
+  getDisplayText(): string {
+    return t.statsViewTitle;
+  }
+
+  getIcon(): string {
+    return "calendar-days";
+  }
+
+  async onOpen() {
+    this.registerEvent(this.app.workspace.on("active-leaf-change", () => this.refresh()));
+    this.registerEvent(this.app.workspace.on("editor-change", () => this.refresh()));
+    this.render();
+  }
+
+  refresh = debounce(() => this.render(), 1000, true);
+
+  render() {
+    const active = this.app.workspace.getActiveViewOfType(MarkdownView);
+    if (active?.file) this.file = active.file;
+
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("wcp-stats");
+
+    const { tracker, settings } = this.plugin;
+    const written = tracker.written(moment().format(DAY_FORMAT));
+    const streaks = tracker.streaks(settings.dailyGoal);
+    const summary = contentEl.createDiv({ cls: "wcp-stats-summary" });
+    this.renderStat(summary, t.statsToday, settings.dailyGoal > 0
+      ? t.statsTodayGoal(written.toLocaleString(), settings.dailyGoal.toLocaleString())
+      : written.toLocaleString());
+    this.renderStat(summary, t.statsCurrentStreak, t.statsDays(streaks.current));
+    this.renderStat(summary, t.statsLongestStreak, t.statsDays(streaks.longest));
+
+    contentEl.createDiv({ text: t.statsHeatmap, cls: "wcp-stats-heading" });
+    this.renderHeatmap(contentEl);
+
+    if (!this.file) return;
+    contentEl.createDiv({ text: t.statsNoteHistory(this.file.basename, HISTORY_DAYS), cls: "wcp-stats-heading" });
+    this.renderNoteHistory(contentEl, this.file.path);
+    this.renderDeadline(contentEl, this.file);
+  }
+
+  private renderStat(parent: HTMLElement, label: string, value: string) {
+    const stat = parent.createDiv({ cls: "wcp-stats-stat" });
+    stat.createDiv({ text: value, cls: "wcp-stats-value" });
+    stat.createDiv({ text: label, cls: "wcp-stats-label" });
+  }
+
+  /** Words written per day over the last weeks, one column per week. */
+  private renderHeatmap(parent: HTMLElement) {
+    const { tracker, settings } = this.plugin;
+    const grid = parent.createDiv({ cls: "wcp-heatmap" });
+    grid.style.setProperty("--wcp-weeks", String(HEATMAP_WEEKS));
+
+    const date = moment().startOf("week").subtract(HEATMAP_WEEKS - 1, "weeks");
+    const days: [string, number][] = [];
+    for (let i = 0; i < HEATMAP_WEEKS * 7; i++, date.add(1, "day")) {
+      const day = date.format(DAY_FORMAT);
+      days.push([day, tracker.written(day)]);
+    }
+
+    // Without a goal, levels are relative to the best day shown
+    const full = settings.dailyGoal > 0 ? settings.dailyGoal : Math.max(...days.map(([, words]) => words), 1);
+    const today = moment().format(DAY_FORMAT);
+    for (const [day, words] of days) {
+      const cell = grid.createDiv({ cls: "wcp-heatmap-day" });
+      if (day > today) { cell.addClass("wcp-heatmap-future"); continue; }
+      const level = words <= 0 ? 0 : Math.min(Math.ceil((words / full) * 4), 4);
+      cell.addClass(`wcp-heatmap-${level}`);
+      setTooltip(cell, t.statsDayTooltip(day, words.toLocaleString()), { placement: "top" });
+    }
+  }
+
+  private renderNoteHistory(parent: HTMLElement, path: string) {
+    const { tracker } = this.plugin;
+    const date = moment().subtract(HISTORY_DAYS - 1, "days");
+    const days: [string, number][] = [];
+    for (let i = 0; i < HISTORY_DAYS; i++, date.add(1, "day")) {
+      const day = date.format(DAY_FORMAT);
+      days.push([day, tracker.written(day, path)]);
+    }
+
+    const max = Math.max(...days.map(([, words]) => words), 1);
+    const chart = parent.createDiv({ cls: "wcp-history" });
+    for (const [day, words] of days) {
+      const bar = chart.createDiv({ cls: "wcp-history-bar" });
+      bar.style.setProperty("--wcp-height", `${(Math.max(words, 0) / max) * 100}%`);
+      setTooltip(bar, t.statsDayTooltip(day, words.toLocaleString()), { placement: "top" });
+    }
+  }
+
+  private renderDeadline(parent: HTMLElement, file: TFile) {
+    const preset = this.plugin.resolvePreset(file)?.preset;
+    const words = preset && this.plugin.index.get(file.path)?.wordsWithSpaces;
+    if (!preset || words === undefined) return;
+
+    const plan = this.plugin.deadlinePlan(file, this.plugin.resolveTargets(preset, file), words);
+    if (!plan) return;
+    parent.createDiv({ text: t.statsDeadline(plan.date), cls: "wcp-stats-heading" });
+    const summary = parent.createDiv({ cls: "wcp-stats-summary" });
+    this.renderStat(summary, t.statsDeadlineRemaining(plan.target.toLocaleString()), plan.remaining.toLocaleString());
+    this.renderStat(summary, t.statsDeadlineDaysLeft, String(Math.max(plan.daysLeft, 0)));
+    this.renderStat(summary, t.statsDeadlinePerDay, plan.perDay.toLocaleString());
+  }
+}
@@ -0,0 +1,148 @@
+// ── Status bar templates ──────────────────────────────────────────────────────
+//
+// Renders a preset's status bar template, e.g. "{words:n} w · [{citekeys} refs]",
+// into segments. Nothing here depends on Obsidian, so templates can be tested.
+
+import { METRIC_KEYS } from "./engine";
+import type { MetricKey, MetricTarget, Metrics, Preset, TargetMetric, Targets } from "./engine";
+import type { Locale } from "./locales/en";
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+/** under: below min (or well below max), near: within 10% of max, over: above max. */
+export type TargetState = "under" | "near" | "met" | "over";
+
+export interface StatusSegment {
+  text: string;
+  state?: TargetState;
+  icon?: string;  // Lucide icon shown before the text
+  glue?: boolean; // follows the previous segment without a separator
+}
+
+// Share of the maximum from which a metric is considered close to its limit
+const TARGET_NEAR_RATIO = 0.9;
+
+// Short names of metrics in status bar templates; full names like {wordsWithSpaces} work too
+const TEMPLATE_FIELDS: Record<string, MetricKey> = {
+  words: "wordsWithSpaces",
+  chars: "charsWithSpaces",
+  charsnospaces: "charsWithoutSpaces",
+  pages: "pages",
+  sheets: "authorSheets",
+  lines: "lines",
+  paragraphs: "paragraphs",
+  mdlinks: "markdownLinks",
+  wikilinks: "wikiLinks",
+  citekeys: "citekeys",
+  sources: "uniqueCitekeys",
+  cjk: "cjkChars",
+  sentences: "sentences",
+  sentencelength: "avgSentenceLength",
+  reading: "readingTime",
+  speaking: "speakingTime",
+  readability: "readability",
+};
+
+// {field} or {field:format}; literal braces and brackets are escaped with a backslash
+const TEMPLATE_TOKEN = /\\([\\{}[\]])|\{([^{}:]+)(?::([^{}]*))?\}|(\[)|(\])/g;
+
+// ── Formatting ────────────────────────────────────────────────────────────────
+
+export function targetState(value: number, target: MetricTarget): TargetState {
+  const { min, max } = target;
+  if (max !== undefined && value > max) return "over";
+  if (max !== undefined && value >= max * TARGET_NEAR_RATIO) return "near";
+  if (min !== undefined) return value < min ? "under" : "met";
+  return "under";
+}
+
+/** 0.4 → "<1 min", 12.3 → "12 min", 75 → "1 h 15 min" */
+export function formatDuration(minutes: number, t: Locale): string {
+  const total = Math.round(minutes);
+  if (total < 1) return t.durationUnderMinute;
+  return total < 60 ? t.durationMinutes(total) : t.durationHours(Math.floor(total / 60), total % 60);
+}
+
+/**
+ * A metric value in a status bar template. Formats: "n" adds thousands separators,
+ * a digit sets the decimal places, "c" is compact (4.8k); times are durations by default.
+ */
+export function formatTemplateValue(key: MetricKey, value: number | string, format: string, t: Locale): string {
+  const n = typeof value === "number" ? value : parseFloat(value);
+  if (format === "n") return n.toLocaleString();
+  if (format === "c") return compactNumber(n);
+  if (/^\d$/.test(format)) {
+    const digits = parseInt(format);
+    return n.toLocaleString(undefined, { minimumFractionDigits: digits, maximumFractionDigits: digits });
+  }
+  if (key === "readingTime" || key === "speakingTime") return formatDuration(n, t);
+  return String(value);
+}
+
+/** 950 → "950", 4812 → "4.8k", 1250000 → "1.3M" */
+export function compactNumber(n: number): string {
+  if (n < 1000) return String(Math.round(n * 10) / 10);
+  if (n < 1e6) return `${(n / 1000).toFixed(1).replace(/\.0$/, "")}k`;
+  return `${(n / 1e6).toFixed(1).replace(/\.0$/, "")}M`;
+}
+
+// ── Templates ─────────────────────────────────────────────────────────────────
+
+/**
+ * Segments of the preset's status bar template. Text in [brackets] is shown only
+ * when none of its fields is zero; {icon:name} shows a Lucide icon. With `whole`,
+ * `m` is a selection and fields show "selection / document".
+ */
+export function templateSegments(preset: Preset, m: Metrics, targets: Targets, t: Locale, whole?: Metrics): StatusSegment[] {
+  const segments: StatusSegment[] = [];
+  const template = preset.statusTemplate;
+  let group: { start: number; empty: boolean } | null = null;
+  let last = 0;
+
+  const literal = (text: string) => { if (text) segments.push({ text, glue: true }); };
+  TEMPLATE_TOKEN.lastIndex = 0;
+  for (let match = TEMPLATE_TOKEN.exec(template); match; match = TEMPLATE_TOKEN.exec(template)) {
+    literal(template.slice(last, match.index));
+    last = match.index + match[0].length;
+    const [token, escaped, name, format = "", open, close] = match;
+
+    if (escaped) {
+      literal(escaped);
+    } else if (open) {
+      if (group) literal(open);
+      else group = { start: segments.length, empty: false };
+    } else if (close) {
+      if (!group) { literal(close); continue; }
+      if (group.empty) segments.length = group.start;
+      group = null;
+    } else if (name.trim().toLowerCase() === "icon") {
+      segments.push({ text: "", icon: format.trim(), glue: true });
+    } else {
+      const field = templateField(preset, m, name.trim());
+      if (!field) { literal(token); continue; }
+      // Groups and targets follow the document while text is selected
+      const docValue = whole ? templateField(preset, whole, name.trim())!.value : field.value;
+      if (group && parseFloat(String(docValue)) === 0) group.empty = true;
+      const target = field.key && targets[field.key as TargetMetric];
+      const text = (value: number | string) => field.key ? formatTemplateValue(field.key, value, format.trim(), t) : String(value);
+      segments.push({
+        text: whole ? `${text(field.value)} / ${text(docValue)}` : text(field.value),
+        state: target ? targetState(parseFloat(String(docValue)), target) : undefined,
+        glue: true,
+      });
+    }
+  }
+  literal(template.slice(last));
+  if (segments.length > 0) segments[0].glue = false;
+  return segments;
+}
+
+/** A metric, or a custom counter by its label. */
+function templateField(preset: Preset, m: Metrics, name: string): { key?: MetricKey; value: number | string } | undefined {
+  const lower = name.toLowerCase();
+  const key = TEMPLATE_FIELDS[lower] ?? METRIC_KEYS.find((k) => k.toLowerCase() === lower);
+  if (key) return { key, value: m[key] };
+  const counter = preset.customCounters.find((c) => c.label.toLowerCase() === lower);
+  if (counter) return { value: m.custom?.[counter.id] ?? 0 };
+  return undefined;
+}
@@ -0,0 +1,62 @@
+import * as assert from "assert/strict";
+import { test } from "node:test";
+import { BlockCache, CountingEngine, defaultPreset } from "../engine";
+import { retokenize, tokenize } from "../tokenizer";
+
+// ── Incremental counting ──────────────────────────────────────────────────────
+//
+// Random edits of random notes, counted the way the status bar counts while
+// typing, must give the same result as tokenizing and counting from scratch.
+
+// Markdown the notes are made of; edits insert them anywhere, even mid-syntax
+const PIECES = [
+  "word ", "Two words. ", "e.g. ", "p. 4 ", "Wrapped\nline. ", "\n", "\n\n", "# Head ", "> q ", "> [!note] c ",
+  "- item ", "  cont ", "    code", "```\n", "$$", "%%", "%% wc:off %%", "%% wc:on %%", "[^1]: f ", "[[n]] ",
+  "![[n]] ", "[@k] ", "[a](b) ", "<b>", "</b> ", "## x ##", "==\n", "--\n", "---\n", "| a | b |\n|---|---|\n",
+  "> | x |\n> |---|\n", "日本語",
+];
+const ROUNDS = 300;
+const EDITS = 25;
+
+/** Deterministic, so that a failure can be reproduced. */
+function random(seed: number): () => number {
+  return () => (seed = (seed * 1103515245 + 12345) & 0x7fffffff) / 0x7fffffff;
+}
+
+/** Notes changed by one random edit at a time: an insertion, a deletion or both. */
+function* edits(rnd: () => number): Generator<[string, string]> {
+  const pick = () => PIECES[Math.floor(rnd() * PIECES.length)];
+  for (let round = 0; round < ROUNDS; round++) {
+    let text = "";
+    for (let i = 20 + Math.floor(rnd() * 60); i > 0; i--) text += pick();
+    for (let i = 0; i < EDITS; i++) {
+      const before = text;
+      const at = Math.floor(rnd() * (text.length + 1));
+      const deleted = rnd() < 0.4 ? Math.floor(rnd() * 8) : 0;
+      text = text.slice(0, at) + (rnd() < 0.7 ? pick() : "") + text.slice(at + deleted);
+      yield [before, text];
+    }
+  }
+}
+
+test("retokenize gives the same blocks as tokenize", () => {
+  for (const [before, after] of edits(random(7))) {
+    assert.deepEqual(retokenize(tokenize(before), after), tokenize(after), JSON.stringify([before, after]));
+  }
+});
+
+test("counting with a BlockCache gives the same metrics as counting from scratch", () => {
+  const engine = new CountingEngine();
+  const rnd = random(99);
+  let cache = new BlockCache();
+  let preset = defaultPreset();
+  let edit = 0;
+  for (const [, text] of edits(rnd)) {
+    if (edit++ % EDITS === 0) {
+      cache = new BlockCache();
+      preset = defaultPreset({ excludeMarkedRegions: rnd() < 0.8, wordSegmentation: rnd() < 0.3 ? "unicode" : "whitespace" });
+    }
+    const counted = cache.use(preset, () => engine.computeMetrics(text, preset, undefined, cache));
+    assert.deepEqual(counted, engine.computeMetrics(text, preset), JSON.stringify(text));
+  }
+});
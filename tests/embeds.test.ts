@@ -0,0 +1,45 @@
+import * as assert from "assert/strict";
+import { test } from "node:test";
+import { EmbedTexts } from "../engine";
+
+// ── Embedded note texts ───────────────────────────────────────────────────────
+
+test("loads a note once and reports it", async () => {
+  let reads = 0;
+  let loads = 0;
+  const texts = new EmbedTexts(async () => { reads++; return "Three more words."; }, () => loads++);
+  assert.equal(texts.get("Chapter.md"), undefined);
+  assert.equal(texts.get("Chapter.md"), undefined);
+  assert.ok(texts.loading);
+  await texts.loaded();
+  assert.equal(texts.get("Chapter.md"), "Three more words.");
+  assert.deepEqual([reads, loads, texts.loading], [1, 1, false]);
+});
+
+test("a failed read counts the note as empty and doesn't block later loads", async () => {
+  const texts = new EmbedTexts(async (path) => {
+    if (path === "Deleted.md") throw new Error("ENOENT");
+    return "Still here.";
+  }, () => undefined);
+  texts.get("Deleted.md");
+  await texts.loaded();
+  assert.equal(texts.get("Deleted.md"), "");
+  assert.equal(texts.loading, false);
+
+  texts.get("Other.md");
+  await texts.loaded();
+  assert.equal(texts.get("Other.md"), "Still here.");
+});
+
+test("forget reloads a changed note", async () => {
+  let text = "Before.";
+  const texts = new EmbedTexts(async () => text, () => undefined);
+  texts.get("Note.md");
+  await texts.loaded();
+  text = "After.";
+  assert.ok(texts.forget("Note.md"));
+  assert.equal(texts.forget("Note.md"), false);
+  assert.equal(texts.get("Note.md"), undefined);
+  await texts.loaded();
+  assert.equal(texts.get("Note.md"), "After.");
+});
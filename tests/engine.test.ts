@@ -0,0 +1,138 @@
+import * as assert from "assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { test } from "node:test";
+import { CountingEngine, defaultPreset } from "../engine";
+import type { CustomCounter, EmbedSource, Metrics, Preset } from "../engine";
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+//
+// Notes in tests/fixtures, counted with a preset that changes one option of the
+// default preset, and the metrics that option affects.
+
+interface Fixture {
+  name: string;
+  note: string;              // file in tests/fixtures, a note or a canvas
+  preset?: Partial<Preset>;
+  embeds?: boolean;          // resolve ![[embeds]] to other notes in tests/fixtures
+  expected: Partial<Metrics>;
+}
+
+const FIXTURES = path.join("tests", "fixtures");
+
+function counter(id: string, options: Partial<CustomCounter>): CustomCounter {
+  return { id, label: id, matcher: "regex", pattern: "", source: "text", unique: false, show: true, ...options };
+}
+
+const fixtures: Fixture[] = [
+  // Links and citations
+  { name: "counts labels, URLs and wikilinks by default", note: "links.md", expected: { wordsWithSpaces: 12, markdownLinks: 1, wikiLinks: 2 } },
+  { name: "countMdLinksAsWords counts link labels only", note: "links.md", preset: { countMdLinksAsWords: true }, expected: { wordsWithSpaces: 11, charsWithSpaces: 51 } },
+  { name: "countWikiLinkDisplayText counts aliases only", note: "links.md", preset: { countWikiLinkDisplayText: true }, expected: { wordsWithSpaces: 10, wikiLinks: 2 } },
+  { name: "ignoreWikiLinks leaves wikilinks out", note: "links.md", preset: { ignoreWikiLinks: true }, expected: { wordsWithSpaces: 7, wikiLinks: 2 } },
+  { name: "counts citations with their locators", note: "citations.md", expected: { wordsWithSpaces: 10, citekeys: 3, uniqueCitekeys: 2, sentences: 1 } },
+  { name: "countCitekeysAsWords leaves citations out", note: "citations.md", preset: { countCitekeysAsWords: true }, expected: { wordsWithSpaces: 5, charsWithSpaces: 25, citekeys: 3 } },
+
+  // Markup
+  { name: "heading closers, setext underlines and HTML tags are markup", note: "markup.md", expected: { wordsWithSpaces: 12, charsWithSpaces: 74, sentences: 4, paragraphs: 4 } },
+
+  // Comments and embeds
+  { name: "ignoreComments leaves comments out", note: "comments.md", expected: { wordsWithSpaces: 3, charsWithSpaces: 23, sentences: 1 } },
+  { name: "counts comments when not ignored", note: "comments.md", preset: { ignoreComments: false }, expected: { wordsWithSpaces: 9, sentences: 2 } },
+  { name: "counts the name of an embed", note: "embeds.md", preset: { countEmbeds: true }, expected: { wordsWithSpaces: 3, wikiLinks: 1 } },
+  { name: "countEmbeds counts the embedded note", note: "embeds.md", preset: { countEmbeds: true }, embeds: true, expected: { wordsWithSpaces: 13, charsWithSpaces: 72, wikiLinks: 1 } },
+  { name: "countEmbeds off counts the name even if notes resolve", note: "embeds.md", embeds: true, expected: { wordsWithSpaces: 3 } },
+  { name: "countEmbeds stops at a note embedding itself", note: "Loop.md", preset: { countEmbeds: true }, embeds: true, expected: { wordsWithSpaces: 2 } },
+
+  // Scope rules
+  { name: "excludes wc:off regions and nothing else by default", note: "scope.md", expected: { wordsWithSpaces: 29, charsWithSpaces: 188 } },
+  { name: "excludeMarkedRegions off counts wc:off regions", note: "scope.md", preset: { excludeMarkedRegions: false }, expected: { wordsWithSpaces: 33, charsWithSpaces: 211 } },
+  { name: "excludeSections leaves out the References section", note: "scope.md", preset: { excludeSections: true }, expected: { wordsWithSpaces: 23, charsWithSpaces: 154 } },
+  { name: "excludedHeadings match any case and include subsections", note: "scope.md", preset: { excludeSections: true, excludedHeadings: ["introduction"] }, expected: { wordsWithSpaces: 0, paragraphs: 0 } },
+  { name: "ignoreCallouts leaves callouts out", note: "scope.md", preset: { ignoreCallouts: true }, expected: { wordsWithSpaces: 24, charsWithSpaces: 158 } },
+  { name: "ignoreTables leaves tables out", note: "scope.md", preset: { ignoreTables: true }, expected: { wordsWithSpaces: 25, charsWithSpaces: 157 } },
+  { name: "ignoreFootnotes leaves footnote definitions out", note: "scope.md", preset: { ignoreFootnotes: true }, expected: { wordsWithSpaces: 26, charsWithSpaces: 169 } },
+  { name: "ignoreBlockQuotes leaves quotes out", note: "scope.md", preset: { ignoreBlockQuotes: true }, expected: { wordsWithSpaces: 26, charsWithSpaces: 173 } },
+
+  // Word segmentation
+  { name: "whitespace segmentation splits on spaces", note: "segmentation.md", expected: { wordsWithSpaces: 4, cjkChars: 10 } },
+  { name: "unicode segmentation splits Japanese into words", note: "segmentation.md", preset: { wordSegmentation: "unicode" }, expected: { wordsWithSpaces: 7 } },
+  { name: "cjk segmentation counts every CJK character", note: "segmentation.md", preset: { wordSegmentation: "cjk" }, expected: { wordsWithSpaces: 13, cjkChars: 10 } },
+
+  // Character units and profiles
+  { name: "utf16 counts an emoji with a skin tone as 4", note: "chars.md", expected: { charsWithSpaces: 115, charsWithoutSpaces: 106, wordsWithSpaces: 9 } },
+  { name: "codepoints count an emoji with a skin tone as 2", note: "chars.md", preset: { charCounting: "codepoints" }, expected: { charsWithSpaces: 113, charsWithoutSpaces: 104 } },
+  { name: "graphemes count an emoji with a skin tone as 1", note: "chars.md", preset: { charCounting: "graphemes" }, expected: { charsWithSpaces: 112, charsWithoutSpaces: 103 } },
+  { name: "the X profile counts URLs as 23 characters", note: "chars.md", preset: { charProfile: "x" }, expected: { charsWithSpaces: 76, charsWithoutSpaces: 67 } },
+  { name: "the Mastodon profile counts URLs as 23 characters", note: "chars.md", preset: { charProfile: "mastodon" }, expected: { charsWithSpaces: 76 } },
+  { name: "the Telegram profile counts link labels only", note: "chars.md", preset: { charProfile: "telegram" }, expected: { charsWithSpaces: 68, charsWithoutSpaces: 60 } },
+  { name: "the Bluesky profile counts graphemes and link labels", note: "chars.md", preset: { charProfile: "bluesky" }, expected: { charsWithSpaces: 65, charsWithoutSpaces: 57 } },
+
+  // Sentences and page models
+  { name: "joins wrapped lines and skips abbreviations in sentences", note: "prose.md", expected: { wordsWithSpaces: 39, sentences: 7, avgSentenceLength: 5.6, paragraphs: 4, lines: 11 } },
+  { name: "citations after a full stop belong to the sentence before", note: "cited-sentences.md", expected: { sentences: 4, wordsWithSpaces: 19 } },
+  { name: "the words page model", note: "prose.md", preset: { pageModel: "words", wordsPerPage: 10 }, expected: { pages: "3.9" } },
+  { name: "the chars page model", note: "prose.md", preset: { pageModel: "chars", charsPerPage: 100 }, expected: { pages: "1.9" } },
+  { name: "the charsNoSpaces page model", note: "prose.md", preset: { pageModel: "charsNoSpaces", charsPerPage: 100 }, expected: { pages: "1.4" } },
+  { name: "the layout page model", note: "prose.md", preset: { pageModel: "layout", linesPerPage: 4, charsPerLine: 20 }, expected: { pages: "3.5", typesetLines: 14 } },
+
+  // Reading and speaking time
+  { name: "reading and speaking time follow the words per minute", note: "prose.md", preset: { readingWpm: 13, speakingWpm: 26 }, expected: { readingTime: 3, speakingTime: 1.5 } },
+
+  // Canvases
+  { name: "counts text cards", note: "board.canvas", expected: { wordsWithSpaces: 5, sentences: 1 } },
+  { name: "countCanvasFiles counts the notes on file cards", note: "board.canvas", preset: { countCanvasFiles: true }, expected: { wordsWithSpaces: 16, sentences: 5 } },
+
+  // Custom counters
+  {
+    name: "built-in matchers",
+    note: "counters.md",
+    preset: {
+      customCounters: [
+        counter("tasks", { matcher: "tasks" }),
+        counter("tags", { matcher: "tags" }),
+        counter("uniqueTags", { matcher: "tags", unique: true }),
+        counter("todos", { matcher: "todos" }),
+        counter("footnotes", { matcher: "footnotes" }),
+        counter("dialogue", { matcher: "dialogue" }),
+      ],
+    },
+    expected: { custom: { tasks: 2, tags: 3, uniqueTags: 2, todos: 2, footnotes: 2, dialogue: 2 } },
+  },
+  {
+    name: "regex counters on the text and on the raw note",
+    note: "counters.md",
+    preset: {
+      customCounters: [
+        counter("word", { pattern: "\\bnote\\b" }),
+        counter("flags", { pattern: "/NOTE/i" }),
+        counter("text", { pattern: "Counters" }),
+        counter("raw", { pattern: "Counters", source: "raw" }),
+        counter("uniqueGroup", { pattern: "#(\\w+)", source: "raw", unique: true }),
+      ],
+    },
+    expected: { custom: { word: 2, flags: 2, text: 0, raw: 1, uniqueGroup: 2 } },
+  },
+];
+
+/** Notes in tests/fixtures by name, like the vault resolves ![[Name]]. */
+const fixtureSource: EmbedSource = {
+  locate: (link) => (fs.existsSync(path.join(FIXTURES, `${link.target}.md`)) ? `${link.target}.md` : undefined),
+  read: (file) => fs.readFileSync(path.join(FIXTURES, file), "utf8"),
+};
+
+const engine = new CountingEngine();
+
+for (const fixture of fixtures) {
+  test(`${fixture.note}: ${fixture.name}`, () => {
+    const raw = fs.readFileSync(path.join(FIXTURES, fixture.note), "utf8");
+    const preset = defaultPreset(fixture.preset);
+    const context = { source: fixtureSource, chain: [fixture.note], words: new Map<string, number>() };
+    const metrics = fixture.note.endsWith(".canvas")
+      ? engine.canvasMetrics(JSON.parse(raw).nodes, preset, context)
+      : engine.computeMetrics(raw, preset, fixture.embeds ? context : undefined);
+    const actual: Partial<Metrics> = {};
+    for (const key of Object.keys(fixture.expected) as (keyof Metrics)[]) (actual as Record<string, unknown>)[key] = metrics[key];
+    assert.deepEqual(actual, fixture.expected);
+  });
+}
@@ -0,0 +1,59 @@
+import * as assert from "assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { test } from "node:test";
+import t from "../locales/en";
+import { CountingEngine, defaultPreset } from "../engine";
+import type { Metrics, Preset, Targets } from "../engine";
+import { templateSegments } from "../template";
+
+// ── Status bar templates ──────────────────────────────────────────────────────
+
+const engine = new CountingEngine();
+const note = (file: string, preset: Preset) =>
+  engine.computeMetrics(fs.readFileSync(path.join("tests", "fixtures", file), "utf8"), preset);
+
+/** The status bar text of a template: its segments are glued together, icons are left out. */
+function render(template: string, m: Metrics, targets: Targets = {}, whole?: Metrics, preset: Partial<Preset> = {}): string {
+  return templateSegments(defaultPreset({ ...preset, statusTemplate: template }), m, targets, t, whole).map((s) => s.text).join("");
+}
+
+const prose = note("prose.md", defaultPreset()); // 39 words, 0.2 pages, no citations
+
+test("fields, short names and formats", () => {
+  assert.equal(render("{words} words · {pages:1} pp · {reading}", prose), "39 words · 0.2 pp · <1 min");
+  assert.equal(render("{wordsWithSpaces} / {sentences} = {sentenceLength:0}", prose), "39 / 7 = 6");
+  assert.equal(render("{words:c}", { ...prose, wordsWithSpaces: 4812 }), "4.8k");
+  assert.equal(render("{speaking}", { ...prose, speakingTime: 75 }), "1 h 15 min");
+});
+
+test("bracketed groups are hidden when a field is zero", () => {
+  assert.equal(render("{words} w[ · {citekeys} refs]", prose), "39 w");
+  assert.equal(render("{words} w[ · {citekeys} refs]", note("citations.md", defaultPreset())), "10 w · 3 refs");
+});
+
+test("escapes and unknown fields are kept as text", () => {
+  assert.equal(render("\\{words\\} \\[{nope}\\]", prose), "{words} [{nope}]");
+});
+
+test("custom counters by label", () => {
+  const preset = defaultPreset({
+    customCounters: [{ id: "t", label: "Tasks", matcher: "tasks", pattern: "", source: "raw", unique: false, show: true }],
+  });
+  assert.equal(render("{tasks} open tasks", note("counters.md", preset), {}, undefined, preset), "2 open tasks");
+});
+
+test("a selection shows selection / document, targets follow the document", () => {
+  const selection = { ...prose, wordsWithSpaces: 5 };
+  assert.equal(render("{words} words", selection, {}, prose), "5 / 39 words");
+  const [segment] = templateSegments(defaultPreset({ statusTemplate: "{words}" }), selection, { wordsWithSpaces: { max: 40 } }, t, prose);
+  assert.equal(segment.state, "near");
+});
+
+test("targets and icons", () => {
+  const segments = (targets: Targets) => templateSegments(defaultPreset({ statusTemplate: "{icon:pencil}{words}" }), prose, targets, t);
+  assert.deepEqual(segments({})[0], { text: "", icon: "pencil", glue: false });
+  assert.equal(segments({ wordsWithSpaces: { max: 30 } })[1].state, "over");
+  assert.equal(segments({ wordsWithSpaces: { min: 30 } })[1].state, "met");
+  assert.equal(segments({ wordsWithSpaces: { min: 100 } })[1].state, "under");
+});
@@ -0,0 +1,804 @@
+// ── Markdown tokenizer ────────────────────────────────────────────────────────
+//
+// Splits Obsidian-flavoured Markdown into blocks (one per line, except fenced
+// code, math and frontmatter, which keep all their lines together) and every
+// block into typed spans. Spans are slices of the source, so their offsets can
+// be mapped back to the editor.
+//
+// The tokenizer only describes the document; what is counted is decided by the
+// preset filters in engine.ts.
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type BlockKind =
+  | "frontmatter"
+  | "heading"
+  | "paragraph"
+  | "listItem"
+  | "quote"
+  | "callout"
+  | "table"
+  | "code"
+  | "math"
+  | "footnote"
+  | "rule"
+  | "blank";
+
+export type SpanKind =
+  | "prose"       // plain text
+  | "markup"      // syntax: heading/quote markers, emphasis, brackets, table pipes
+  | "break"       // line break
+  | "frontmatter"
+  | "code"        // fenced, indented and inline code, including the fences
+  | "math"        // $…$ and $$…$$, including the dollars
+  | "comment"     // content of %% … %% and <!-- … --> (delimiters are markup)
+  | "image"
+  | "linkLabel"
+  | "linkUrl"
+  | "wikilink"    // inner text of [[…]] and ![[…]], see `link`
+  | "citekey"     // key of a Pandoc citation, [@doe2020] or @doe2020, without the "@"
+  | "citeAffix"   // prefix, locator and separator of a citation: "see ", ", p. 4", ";"
+  | "listMarker"; // "- ", "1. ", "- [ ] " including the trailing space
+
+export type ListMarker = "bullet" | "task" | "ordered";
+
+export interface WikiLinkParts {
+  target: string;
+  subpath: string; // heading or block reference after "#", without the "#"
+  alias: string;
+  embed: boolean;
+}
+
+export interface Span {
+  kind: SpanKind;
+  text: string;
+  from: number; // offset in the source
+  marker?: ListMarker;
+  link?: WikiLinkParts;
+}
+
+export interface Block {
+  kind: BlockKind;
+  from: number;
+  to: number;     // exclusive, not including the trailing line break
+  line: number;   // zero-based line of `from`
+  spans: Span[];  // including the trailing "break" span, if any
+  level?: number; // heading level
+  heading?: string;
+}
+
+export interface MarkdownDocument {
+  source: string;
+  blocks: Block[];
+  lines: number;
+}
+
+/** Pushes a span for `src[from, to)`, flushing pending prose before it. */
+type Emit = (kind: SpanKind, from: number, to: number) => Span;
+
+// ── Block syntax ──────────────────────────────────────────────────────────────
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const MATH_BLOCK = /^ {0,3}\$\$/;
+const INDENTED_CODE = /^(?: {4}|\t)/;
+const QUOTE = /^ {0,3}>[ \t]?/;
+const CALLOUT = /^\[![^\]\s]+\][-+]?/;
+const INDENT = /^[ \t]+/;
+const HEADING = /^(#{1,6})(?:[ \t]+|$)/;
+// Optional closing sequence of an ATX heading: ## Title ##
+const HEADING_CLOSE = /(?:^|[ \t]+)#+[ \t]*$/;
+// Underline of a setext heading, under a paragraph line
+const SETEXT_UNDERLINE = /^(?:=+|-+)[ \t]*$/;
+const BULLET = /^[-*+](?:[ \t]+|$)/;
+const TASK = /^[-*+][ \t]+\[.\](?:[ \t]+|$)/;
+const ORDERED = /^\d{1,9}[.)](?:[ \t]+|$)/;
+const FOOTNOTE_DEF = /^\[\^[^\]]+\]:[ \t]*/;
+const RULE = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const TABLE_DELIMITER = /^[ \t]*\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+const FRONTMATTER_OPEN = /^---[ \t]*(?:\n|$)/;
+const FRONTMATTER_CLOSE = /\n(?:---|\.\.\.)[ \t]*(?:\n|$)/g;
+
+// Raw HTML tag, opening or closing: <span class="x">, </span>, <br/>
+const HTML_TAG = /<\/?[A-Za-z][A-Za-z0-9-]*(?:\s(?:[^<>"']|"[^"]*"|'[^']*')*)?\/?>/y;
+
+// Pandoc citation key after the "@": a letter, digit or "_", then internal
+// punctuation is allowed, but not at the end; or anything in braces, @{…}
+const CITEKEY = /^(?:\{[^}]*\}|[\p{L}\p{N}_](?:[\p{L}\p{N}_]|[:.#$%&\-+?<>~/]+(?=[\p{L}\p{N}_]))*)/u;
+// Locator after an in-text citation: @doe2020 [p. 33]
+const CITE_LOCATOR = /^ \[[^\]@]*\](?!\()/;
+
+/** One citation of a bracketed group: prefix, "@" or "-@", key and locator. */
+interface CiteItem {
+  from: number;
+  at: number;  // the "-@" or "@"
+  key: number; // after the "@"
+  keyEnd: number;
+  to: number;
+}
+
+const ESCAPABLE = "\\`*_{}[]()#+-.!|~=$%<>@^";
+
+// Characters inline syntax can start with, and the line break that ends it
+const INLINE_SYNTAX = /[\\%<`$![@(*_~=|\n]/g;
+
+function isSpace(c: string | undefined): boolean {
+  return c === undefined || /\s/.test(c);
+}
+
+function isWordChar(c: string | undefined): boolean {
+  return c !== undefined && /[\p{L}\p{N}]/u.test(c);
+}
+
+// ── Tokenizer ─────────────────────────────────────────────────────────────────
+
+// Start of the earliest block that looked for a closer and found none: an edit
+// anywhere after it can change that block
+const openEnded = new WeakMap<MarkdownDocument, number>();
+
+class Tokenizer {
+  private blocks: Block[] = [];
+  private pos = 0;
+  private line = 0;
+  private openEnded = Infinity;
+
+  constructor(private src: string, private offset = 0) {}
+
+  document(): MarkdownDocument {
+    this.frontmatter();
+    while (this.pos < this.src.length) this.block();
+    const lines = this.src ? this.src.split("\n").length : 0;
+    return this.result(lines);
+  }
+
+  /**
+   * Tokenizes from `previous.blocks[restart]` until the blocks line up with
+   * those after the edit, which ends at `editEnd`, then moves the rest over.
+   */
+  resume(previous: MarkdownDocument, restart: number, editEnd: number): MarkdownDocument {
+    const old = previous.blocks;
+    const delta = this.src.length - previous.source.length;
+    this.blocks = old.slice(0, restart);
+    this.pos = old[restart].from;
+    this.line = old[restart].line;
+
+    let next = restart;
+    while (this.pos < this.src.length) {
+      if (this.pos >= editEnd) {
+        const from = this.pos - delta;
+        while (next < old.length && old[next].from < from) next++;
+        if (next < old.length && old[next].from === from && this.sameContext(old, next)) {
+          return this.splice(previous, next, delta);
+        }
+      }
+      this.block();
+    }
+    return this.result(this.src.split("\n").length);
+  }
+
+  /** Whether a block starting here would be read as `old[next]` was. */
+  private sameContext(old: Block[], next: number): boolean {
+    const prev = this.blocks[this.blocks.length - 1];
+    const oldPrev = old[next - 1];
+    if (prev.kind !== oldPrev.kind || this.isIndentedCode(prev) !== this.isIndentedCode(oldPrev)) return false;
+    let oldContent: Block | undefined;
+    for (let i = next - 1; i >= 0 && !oldContent; i--) if (old[i].kind !== "blank") oldContent = old[i];
+    return this.lastContentBlock()?.kind === oldContent?.kind;
+  }
+
+  /** Shifts `previous.blocks` from `next` on into place after the retokenized ones. */
+  private splice(previous: MarkdownDocument, next: number, delta: number): MarkdownDocument {
+    const old = previous.blocks;
+    const lineDelta = this.line - old[next].line;
+    const reached = openEnded.get(previous);
+    if (reached !== undefined && reached >= old[next].from) {
+      this.openEnded = Math.min(this.openEnded, reached + delta);
+    }
+    for (let i = next; i < old.length; i++) {
+      const block = old[i];
+      if (delta) {
+        block.from += delta;
+        block.to += delta;
+        for (const s of block.spans) s.from += delta;
+      }
+      block.line += lineDelta;
+      this.blocks.push(block);
+    }
+    return this.result(previous.lines + lineDelta);
+  }
+
+  private result(lines: number): MarkdownDocument {
+    const doc = { source: this.src, blocks: this.blocks, lines };
+    if (this.openEnded !== Infinity) openEnded.set(doc, this.openEnded);
+    return doc;
+  }
+
+  /** Inline spans of the whole source; line breaks become "break" spans. */
+  inlineOnly(): Span[] {
+    const spans: Span[] = [];
+    while (this.pos < this.src.length) {
+      this.pos = this.inline(this.pos, this.src.length, spans);
+      this.lineBreak(spans);
+    }
+    return spans;
+  }
+
+  // ── Blocks ──────────────────────────────────────────────────────────────
+
+  private frontmatter() {
+    if (!FRONTMATTER_OPEN.test(this.src)) return;
+    FRONTMATTER_CLOSE.lastIndex = 3;
+    const close = FRONTMATTER_CLOSE.exec(this.src);
+    if (!close) {
+      this.openEnded = 0;
+      return;
+    }
+
+    // The frontmatter span swallows its closing line break
+    const end = close.index + close[0].length;
+    const text = this.src.slice(0, end);
+    this.push("frontmatter", 0, end, [{ kind: "frontmatter", text, from: this.offset }]);
+  }
+
+  private block() {
+    const start = this.pos;
+    const end = this.lineEnd(start);
+    const text = this.src.slice(start, end);
+    const prev = this.blocks[this.blocks.length - 1];
+
+    if (!text.trim()) {
+      const spans: Span[] = [];
+      if (text) spans.push(this.span("prose", start, end));
+      this.pos = end;
+      return this.finish("blank", start, spans);
+    }
+
+    const fence = FENCE.exec(text);
+    if (fence) return this.fencedCode(start, fence[1]);
+
+    if (MATH_BLOCK.test(text)) {
+      const open = start + text.indexOf("$$");
+      const close = this.src.indexOf("$$", open + 2);
+      if (close !== -1) {
+        const spans = [this.span("math", start, close + 2)];
+        this.pos = this.inline(close + 2, this.src.length, spans);
+        return this.finish("math", start, spans);
+      }
+      this.openEnded = Math.min(this.openEnded, start);
+    }
+
+    if (INDENTED_CODE.test(text) && prev && (prev.kind === "blank" || this.isIndentedCode(prev))) {
+      if (this.lastContentBlock()?.kind !== "listItem") {
+        this.pos = end;
+        return this.finish("code", start, [this.span("code", start, end)]);
+      }
+    }
+
+    this.container(start, end, prev);
+  }
+
+  /** Quote markers, then a heading, list item, footnote, rule or table row. */
+  private container(start: number, end: number, prev: Block | undefined) {
+    const spans: Span[] = [];
+    let p = start;
+    let kind: BlockKind = "paragraph";
+    let level: number | undefined;
+
+    // Quote and callout markers
+    let quoted = false;
+    for (let m = QUOTE.exec(this.src.slice(p, end)); m; m = QUOTE.exec(this.src.slice(p, end))) {
+      spans.push(this.span("markup", p, p + m[0].length));
+      p += m[0].length;
+      quoted = true;
+    }
+    if (quoted) {
+      const callout = CALLOUT.exec(this.src.slice(p, end));
+      if (callout) {
+        spans.push(this.span("markup", p, p + callout[0].length));
+        p += callout[0].length;
+        kind = "callout";
+      } else {
+        kind = prev?.kind === "callout" ? "callout" : "quote";
+      }
+    }
+
+    const indent = INDENT.exec(this.src.slice(p, end));
+    if (indent) {
+      spans.push(this.span("prose", p, p + indent[0].length));
+      p += indent[0].length;
+    }
+
+    const rest = this.src.slice(p, end);
+    // Inside quotes the block stays a quote or callout
+    let structure: BlockKind | undefined;
+    let m: RegExpExecArray | null;
+
+    if ((m = HEADING.exec(rest))) {
+      spans.push(this.span("markup", p, p + m[0].length));
+      p += m[0].length;
+      level = m[1].length;
+      structure = "heading";
+    } else if (!quoted && prev?.kind === "paragraph" && SETEXT_UNDERLINE.test(rest)) {
+      spans.push(this.span("markup", p, end));
+      p = end;
+      structure = "rule";
+    } else if (RULE.test(rest)) {
+      spans.push(this.span("markup", p, end));
+      p = end;
+      structure = "rule";
+    } else if ((m = TASK.exec(rest)) || (m = BULLET.exec(rest)) || (m = ORDERED.exec(rest))) {
+      const marker: ListMarker = /^\d/.test(m[0]) ? "ordered" : TASK.test(m[0]) ? "task" : "bullet";
+      spans.push({ ...this.span("listMarker", p, p + m[0].length), marker });
+      p += m[0].length;
+      structure = "listItem";
+    } else if ((m = FOOTNOTE_DEF.exec(rest))) {
+      spans.push(this.span("markup", p, p + m[0].length));
+      p += m[0].length;
+      structure = "footnote";
+    } else if (indent && prev?.kind === "footnote") {
+      structure = "footnote";
+    } else if (this.isTableRow(start, end, prev)) {
+      if (TABLE_DELIMITER.test(rest)) {
+        spans.push(this.span("markup", p, end));
+        p = end;
+      }
+      structure = "table";
+    }
+
+    if (structure && !quoted) kind = structure;
+
+    const close = structure === "heading" ? HEADING_CLOSE.exec(this.src.slice(p, end)) : null;
+    if (close) {
+      this.pos = this.inline(p, p + close.index, spans);
+      if (this.pos === p + close.index) {
+        spans.push(this.span("markup", this.pos, end));
+        this.pos = end;
+      }
+    } else {
+      this.pos = this.inline(p, this.src.length, spans, structure === "table");
+    }
+    const block = this.finish(kind, start, spans);
+    if (structure === "heading") {
+      block.level = level;
+      block.heading = spans
+        .filter((s) => s.kind === "prose" || s.kind === "wikilink" || s.kind === "linkLabel")
+        .map((s) => (s.kind === "wikilink" ? s.link!.alias || s.link!.target : s.text))
+        .join("")
+        .trim();
+    }
+  }
+
+  private fencedCode(start: number, fence: string) {
+    const closing = new RegExp(`^ {0,3}${fence[0] === "`" ? "`" : "~"}{${fence.length},}[ \\t]*$`);
+    let end = this.lineEnd(start);
+    while (end < this.src.length) {
+      const lineStart = end + 1;
+      end = this.lineEnd(lineStart);
+      if (closing.test(this.src.slice(lineStart, end))) break;
+    }
+    this.pos = end;
+    this.finish("code", start, [this.span("code", start, end)]);
+  }
+
+  private isTableRow(start: number, end: number, prev: Block | undefined): boolean {
+    const text = this.src.slice(start, end);
+    if (!text.includes("|")) return false;
+    if (prev?.kind === "table") return true;
+    const nextStart = end + 1;
+    if (nextStart >= this.src.length) return false;
+    const next = this.src.slice(nextStart, this.lineEnd(nextStart));
+    return next.includes("-") && TABLE_DELIMITER.test(next);
+  }
+
+  private isIndentedCode(block: Block): boolean {
+    return block.kind === "code" && INDENTED_CODE.test(block.spans[0]?.text ?? "");
+  }
+
+  private lastContentBlock(): Block | undefined {
+    for (let i = this.blocks.length - 1; i >= 0; i--) {
+      if (this.blocks[i].kind !== "blank") return this.blocks[i];
+    }
+    return undefined;
+  }
+
+  /** Closes the block at `this.pos` and consumes the line break after it. */
+  private finish(kind: BlockKind, start: number, spans: Span[]): Block {
+    const end = this.pos;
+    this.lineBreak(spans);
+    return this.push(kind, start, end, spans);
+  }
+
+  private push(kind: BlockKind, from: number, to: number, spans: Span[]): Block {
+    const block: Block = { kind, from: from + this.offset, to: to + this.offset, line: this.line, spans };
+    this.blocks.push(block);
+    for (const s of spans) for (const c of s.text) if (c === "\n") this.line++;
+    this.pos = Math.max(this.pos, to);
+    return block;
+  }
+
+  private lineBreak(spans: Span[]) {
+    if (this.src[this.pos] !== "\n") return;
+    spans.push(this.span("break", this.pos, this.pos + 1));
+    this.pos++;
+  }
+
+  private lineEnd(pos: number): number {
+    const i = this.src.indexOf("\n", pos);
+    return i === -1 ? this.src.length : i;
+  }
+
+  private span(kind: SpanKind, from: number, to: number): Span {
+    return { kind, text: this.src.slice(from, to), from: from + this.offset };
+  }
+
+  // ── Inline ──────────────────────────────────────────────────────────────
+
+  /**
+   * Tokenizes inline content from `pos` up to the end of the line (or `limit`).
+   * Comments may run over several lines. Returns the position where it stopped.
+   */
+  private inline(pos: number, limit: number, spans: Span[], table = false): number {
+    const src = this.src;
+    let prose = pos;
+
+    const flush = (to: number) => {
+      if (to > prose) spans.push(this.span("prose", prose, to));
+    };
+    const emit: Emit = (kind, from, to) => {
+      flush(from);
+      const span = this.span(kind, from, to);
+      spans.push(span);
+      prose = to;
+      return span;
+    };
+
+    let end = this.lineEnd(pos);
+    while (pos < limit && src[pos] !== "\n") {
+      const c = src[pos];
+      if (pos > end) end = this.lineEnd(pos); // a comment ran over several lines
+      let next = -1;
+
+      if (c === "\\" && pos + 1 < end && ESCAPABLE.includes(src[pos + 1])) {
+        emit("markup", pos, pos + 1);
+        pos += 2; // the escaped character stays prose
+        continue;
+      }
+
+      if (src.startsWith("%%", pos) || src.startsWith("<!--", pos)) {
+        const [open, close] = c === "%" ? ["%%", "%%"] : ["<!--", "-->"];
+        let closeAt = src.indexOf(close, pos + open.length);
+        if (closeAt === -1 || closeAt >= limit) closeAt = limit; // unclosed: runs to the end
+        emit("markup", pos, pos + open.length);
+        if (closeAt > pos + open.length) emit("comment", pos + open.length, closeAt);
+        pos = Math.min(closeAt + close.length, limit);
+        if (closeAt < limit) emit("markup", closeAt, pos);
+        continue;
+      }
+
+      switch (c) {
+        case "`": {
+          const run = this.runLength(pos, "`");
+          const close = this.closingRun(pos + run, end, "`", run);
+          next = close === -1 ? pos + run : close + run;
+          if (close !== -1) emit("code", pos, next);
+          break;
+        }
+        case "$": {
+          next = this.inlineMath(pos, end);
+          if (next !== -1) emit("math", pos, next);
+          else next = pos + 1;
+          break;
+        }
+        case "!": {
+          if (src.startsWith("![[", pos)) next = this.wikilink(pos, end, emit);
+          else if (src[pos + 1] === "[") {
+            next = this.linkEnd(pos + 1, end);
+            if (next !== -1) emit("image", pos, next);
+          }
+          if (next === -1) next = pos + 1;
+          break;
+        }
+        case "[": {
+          if (src.startsWith("[[", pos)) next = this.wikilink(pos, end, emit);
+          else if (src.startsWith("[^", pos)) {
+            const close = src.indexOf("]", pos);
+            if (close !== -1 && close < end) {
+              next = close + 1;
+              emit("markup", pos, next);
+            }
+          } else {
+            next = this.citation(pos, end, emit);
+            if (next === -1) next = this.link(pos, end, emit);
+          }
+          if (next === -1) next = pos + 1;
+          break;
+        }
+        case "@": {
+          next = this.inTextCitation(pos, end, emit);
+          if (next === -1) next = pos + 1;
+          break;
+        }
+        case "(": {
+          next = this.reverseLink(pos, end, emit);
+          if (next === -1) next = pos + 1;
+          break;
+        }
+        case "*":
+        case "_":
+        case "~":
+        case "=": {
+          const run = this.runLength(pos, c);
+          if (this.isDelimiter(pos, run, c)) emit("markup", pos, pos + run);
+          next = pos + run;
+          break;
+        }
+        case "<": {
+          HTML_TAG.lastIndex = pos;
+          const tag = HTML_TAG.exec(src);
+          if (tag && pos + tag[0].length <= end) {
+            next = pos + tag[0].length;
+            emit("markup", pos, next);
+          } else {
+            next = pos + 1;
+          }
+          break;
+        }
+        case "|": {
+          if (table) emit("markup", pos, pos + 1);
+          next = pos + 1;
+          break;
+        }
+        default: {
+          // Plain text runs up to the next character that may start syntax
+          INLINE_SYNTAX.lastIndex = pos + 1;
+          next = INLINE_SYNTAX.test(src) ? INLINE_SYNTAX.lastIndex - 1 : src.length;
+          next = Math.min(next, limit);
+        }
+      }
+
+      pos = next;
+    }
+
+    flush(pos);
+    return pos;
+  }
+
+  private runLength(pos: number, c: string): number {
+    let j = pos;
+    while (this.src[j] === c) j++;
+    return j - pos;
+  }
+
+  /** Start of the next run of exactly `n` × `c` before `end`, or -1. */
+  private closingRun(from: number, end: number, c: string, n: number): number {
+    for (let i = from; i < end; ) {
+      if (this.src[i] !== c) { i++; continue; }
+      const run = this.runLength(i, c);
+      if (run === n) return i;
+      i += run;
+    }
+    return -1;
+  }
+
+  /**
+   * Emphasis, strikethrough and highlight markers. Underscores inside words
+   * (snake_case) and markers surrounded by spaces ("2 * 3") are plain text.
+   */
+  private isDelimiter(pos: number, run: number, c: string): boolean {
+    const before = this.src[pos - 1];
+    const after = this.src[pos + run];
+    if (isSpace(before) && isSpace(after)) return false;
+    if ((c === "~" || c === "=") && run !== 2) return false;
+    if (c === "_" && isWordChar(before) && isWordChar(after)) return false;
+    return true;
+  }
+
+  /** End of `$$…$$` or `$…$` starting at `pos`, or -1 if it isn't math. */
+  private inlineMath(pos: number, end: number): number {
+    const src = this.src;
+    if (src.startsWith("$$", pos)) {
+      const close = src.indexOf("$$", pos + 2);
+      return close !== -1 && close < end ? close + 2 : -1;
+    }
+    if (isSpace(src[pos + 1]) || src[pos + 1] === "$") return -1;
+    for (let i = pos + 1; i < end; i++) {
+      if (src[i] === "\\") { i++; continue; }
+      if (src[i] === "$" && !isSpace(src[i - 1]) && !/\d/.test(src[i + 1] ?? "")) return i + 1;
+    }
+    return -1;
+  }
+
+  private wikilink(pos: number, end: number, emit: Emit): number {
+    const embed = this.src[pos] === "!";
+    const open = pos + (embed ? 3 : 2);
+    const close = this.src.indexOf("]]", open);
+    if (close === -1 || close >= end) return -1;
+
+    const inner = this.src.slice(open, close).replace(/\\\|/g, "|");
+    const pipe = inner.indexOf("|");
+    const ref = pipe === -1 ? inner : inner.slice(0, pipe);
+    const hash = ref.indexOf("#");
+
+    emit("markup", pos, open);
+    const span = emit("wikilink", open, close);
+    span.link = {
+      target: (hash === -1 ? ref : ref.slice(0, hash)).trim(),
+      subpath: hash === -1 ? "" : ref.slice(hash + 1).trim(),
+      alias: pipe === -1 ? "" : inner.slice(pipe + 1).trim(),
+      embed,
+    };
+    emit("markup", close, close + 2);
+    return close + 2;
+  }
+
+  /** Pandoc citation group `[see @doe2020, p. 4; -@smith2019]` at `pos`, or -1. */
+  private citation(pos: number, end: number, emit: Emit): number {
+    const close = this.matching(pos, end, "[", "]");
+    if (close === -1 || this.src[close + 1] === "(") return -1;
+
+    // Every part between semicolons has to be a citation
+    const items: CiteItem[] = [];
+    for (let from = pos + 1, i = from; i <= close; i++) {
+      if (i < close && this.src[i] !== ";") continue;
+      const item = this.citeItem(from, i);
+      if (!item) return -1;
+      items.push(item);
+      from = i + 1;
+    }
+
+    emit("markup", pos, pos + 1);
+    items.forEach((item, n) => {
+      if (n > 0) emit("citeAffix", item.from - 1, item.from);
+      if (item.at > item.from) emit("citeAffix", item.from, item.at);
+      this.citeKey(item.at, item.key, item.keyEnd, emit);
+      if (item.to > item.keyEnd) emit("citeAffix", item.keyEnd, item.to);
+    });
+    emit("markup", close, close + 1);
+    return close + 1;
+  }
+
+  /** The first key between `from` and `to` that follows a space or starts the item. */
+  private citeItem(from: number, to: number): CiteItem | null {
+    const src = this.src;
+    for (let i = from; i < to; i++) {
+      if (src[i] !== "@") continue;
+      const suppress = src[i - 1] === "-";
+      const at = suppress ? i - 1 : i;
+      if (at > from && !isSpace(src[at - 1])) continue;
+      const key = CITEKEY.exec(src.slice(i + 1, to));
+      if (key) return { from, at, key: i + 1, keyEnd: i + 1 + key[0].length, to };
+    }
+    return null;
+  }
+
+  /** `@doe2020` in the text, optionally with a locator: `@doe2020 [p. 33]`. */
+  private inTextCitation(pos: number, end: number, emit: Emit): number {
+    // Not an e-mail address or a handle inside a word
+    if (isWordChar(this.src[pos - 1])) return -1;
+    const key = CITEKEY.exec(this.src.slice(pos + 1, end));
+    if (!key) return -1;
+
+    const keyEnd = pos + 1 + key[0].length;
+    this.citeKey(pos, pos + 1, keyEnd, emit);
+    const locator = CITE_LOCATOR.exec(this.src.slice(keyEnd, end));
+    if (!locator) return keyEnd;
+
+    const close = keyEnd + locator[0].length - 1;
+    emit("markup", keyEnd + 1, keyEnd + 2);
+    if (close > keyEnd + 2) emit("citeAffix", keyEnd + 2, close);
+    emit("markup", close, close + 1);
+    return close + 1;
+  }
+
+  /** "@" (or "-@") as markup, then the key; the braces of @{…} are markup too. */
+  private citeKey(at: number, key: number, keyEnd: number, emit: Emit) {
+    emit("markup", at, key);
+    if (this.src[key] !== "{") { emit("citekey", key, keyEnd); return; }
+    emit("markup", key, key + 1);
+    if (keyEnd - 1 > key + 1) emit("citekey", key + 1, keyEnd - 1);
+    emit("markup", keyEnd - 1, keyEnd);
+  }
+
+  /** Position after `[label](url)` starting at the "[" at `pos`, or -1. */
+  private linkEnd(pos: number, end: number): number {
+    const labelEnd = this.matching(pos, end, "[", "]");
+    if (labelEnd === -1 || this.src[labelEnd + 1] !== "(") return -1;
+    const urlEnd = this.matching(labelEnd + 1, end, "(", ")");
+    return urlEnd === -1 ? -1 : urlEnd + 1;
+  }
+
+  private link(pos: number, end: number, emit: Emit): number {
+    const close = this.linkEnd(pos, end);
+    if (close === -1) return -1;
+    const labelEnd = this.matching(pos, end, "[", "]");
+
+    emit("markup", pos, pos + 1);
+    this.label(pos + 1, labelEnd, emit);
+    emit("markup", labelEnd, labelEnd + 2);
+    emit("linkUrl", labelEnd + 2, close - 1);
+    emit("markup", close - 1, close);
+    return close;
+  }
+
+  /** The alternative `(url)[label]` syntax. */
+  private reverseLink(pos: number, end: number, emit: Emit): number {
+    const urlEnd = this.src.indexOf(")", pos);
+    if (urlEnd === -1 || urlEnd >= end || this.src[urlEnd + 1] !== "[") return -1;
+    if (/\s/.test(this.src.slice(pos + 1, urlEnd)) || /^[\^@[]/.test(this.src[urlEnd + 2] ?? "")) return -1;
+    const labelEnd = this.matching(urlEnd + 1, end, "[", "]");
+    if (labelEnd === -1) return -1;
+
+    emit("markup", pos, pos + 1);
+    emit("linkUrl", pos + 1, urlEnd);
+    emit("markup", urlEnd, urlEnd + 2);
+    this.label(urlEnd + 2, labelEnd, emit);
+    emit("markup", labelEnd, labelEnd + 1);
+    return labelEnd + 1;
+  }
+
+  /** Link labels can hold emphasis and code, so they are tokenized as well. */
+  private label(from: number, to: number, emit: Emit) {
+    const label: Span[] = [];
+    this.inline(from, to, label);
+    for (const s of label) {
+      const start = s.from - this.offset;
+      const span = emit(s.kind === "prose" ? "linkLabel" : s.kind, start, start + s.text.length);
+      span.link = s.link;
+    }
+  }
+
+  /** Index of the bracket closing the one at `pos`, honouring nesting. */
+  private matching(pos: number, end: number, open: string, close: string): number {
+    let depth = 0;
+    for (let i = pos; i < end; i++) {
+      const c = this.src[i];
+      if (c === "\\") { i++; continue; }
+      if (c === open) depth++;
+      else if (c === close && --depth === 0) return i;
+    }
+    return -1;
+  }
+}
+
+// ── Public API ────────────────────────────────────────────────────────────────
+
+export function tokenize(source: string): MarkdownDocument {
+  return new Tokenizer(source).document();
+}
+
+/**
+ * Tokenizes `source`, an edited version of `previous.source`, reusing the
+ * blocks before and after the edit. Gives the same document as tokenize(), but
+ * moves blocks out of `previous`, which must not be used afterwards.
+ */
+export function retokenize(previous: MarkdownDocument, source: string): MarkdownDocument {
+  const old = previous.source;
+  if (old === source) return previous;
+
+  const from = commonLength(old, source, Math.min(old.length, source.length), false);
+  const tail = commonLength(old, source, Math.min(old.length, source.length) - from, true);
+
+  // Restart one block early: a table row looks at the line after it
+  let restart = previous.blocks.length - 1;
+  while (restart >= 0 && previous.blocks[restart].from > from) restart--;
+  restart--;
+  if (restart < 1 || (openEnded.get(previous) ?? Infinity) < previous.blocks[restart].from) return tokenize(source);
+
+  return new Tokenizer(source).resume(previous, restart, source.length - tail);
+}
+
+/** Length of the common prefix of `a` and `b`, or suffix if `fromEnd`, up to `max`. */
+function commonLength(a: string, b: string, max: number, fromEnd: boolean): number {
+  const at = (s: string, n: number) => (fromEnd ? s.length - n : n);
+  const slice = (s: string, n: number, len: number) => fromEnd ? s.slice(at(s, n + len), at(s, n)) : s.slice(n, n + len);
+  // Comparing whole chunks is native, and much faster than char by char
+  const chunk = 256;
+  let n = 0;
+  while (n + chunk <= max && slice(a, n, chunk) === slice(b, n, chunk)) n += chunk;
+  while (n < max && slice(a, n, 1) === slice(b, n, 1)) n++;
+  return n;
+}
+
+/** Inline spans of a fragment (e.g. comment content) found at `offset`. */
+export function tokenizeInline(text: string, offset = 0): Span[] {
+  return new Tokenizer(text, offset).inlineOnly();
+}